@@ -0,0 +1,67 @@
+import { AnnotationDimension, TestLink } from './types';
+
+/**
+ * The Allure-style dimensions the reporter has always understood, used when no `annotations` option is set
+ */
+export const DEFAULT_ANNOTATION_DIMENSIONS: AnnotationDimension[] = [
+  { type: 'severity', default: 'normal' },
+  { type: 'feature', default: 'Unknown' },
+  { type: 'epic', default: 'General' }
+];
+
+export function getDimensionLabel(dimension: AnnotationDimension): string {
+  return dimension.label || dimension.type.charAt(0).toUpperCase() + dimension.type.slice(1);
+}
+
+/**
+ * Value of every dimension for one test: the last matching annotation wins, anything missing
+ * or outside the allowed values falls back to the dimension's default
+ */
+export function resolveAnnotationValues(
+  annotations: Array<{ type: string; description?: string }>,
+  dimensions: AnnotationDimension[],
+  onRejected?: (dimension: AnnotationDimension, value: string) => void
+): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const dimension of dimensions) {
+    const fallback = dimension.default ?? 'Unknown';
+    let value: string | undefined;
+    annotations.forEach(annotation => {
+      if (annotation.type === dimension.type) {
+        value = annotation.description || fallback;
+      }
+    });
+
+    if (value !== undefined && dimension.values && !dimension.values.includes(value)) {
+      onRejected?.(dimension, value);
+      value = undefined;
+    }
+    values[dimension.type] = value ?? fallback;
+  }
+
+  return values;
+}
+
+// Annotation types that always become links; any type with a URL template in the `links` option does too
+export const DEFAULT_LINK_TYPES = ['issue', 'tms', 'link'];
+
+/**
+ * Links from issue/tms/link annotations, with URLs built from the `links` templates
+ */
+export function resolveLinks(
+  annotations: Array<{ type: string; description?: string }>,
+  templates: Record<string, string>
+): TestLink[] {
+  return annotations
+    .filter(annotation => annotation.description && (DEFAULT_LINK_TYPES.includes(annotation.type) || templates[annotation.type]))
+    .map(annotation => {
+      const name = annotation.description!;
+      const template = templates[annotation.type];
+      // Full URLs are used as they are, e.g. { type: 'link', description: 'https://...' }
+      if (/^https?:\/\//.test(name)) {
+        return { type: annotation.type, name, url: name };
+      }
+      return { type: annotation.type, name, url: template ? template.split('{}').join(encodeURIComponent(name)) : undefined };
+    });
+}
@@ -0,0 +1,130 @@
+import { escapeHtml } from './format';
+
+const ANSI_PATTERN = /\x1b\[([0-9;]*)m/;
+
+// xterm's default 16-color palette, normal then bright
+const COLORS = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff'
+];
+
+interface AnsiStyle {
+  color?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+/**
+ * Color from the 256-color palette: 16 base colors, a 6x6x6 cube, then 24 grays
+ */
+function color256(index: number): string | undefined {
+  if (index < 16) return COLORS[index];
+  if (index < 232) {
+    const value = index - 16;
+    const level = (n: number) => (n === 0 ? 0 : n * 40 + 55);
+    return `rgb(${level(Math.floor(value / 36))}, ${level(Math.floor(value / 6) % 6)}, ${level(value % 6)})`;
+  }
+  if (index < 256) {
+    const gray = (index - 232) * 10 + 8;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+  }
+  return undefined;
+}
+
+/**
+ * Apply SGR parameters to the running style; 38/48 consume their extended color arguments
+ */
+function applyCodes(style: AnsiStyle, codes: number[]): AnsiStyle {
+  let next: AnsiStyle = { ...style };
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    if (code === 0) {
+      next = {};
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4) {
+      next.underline = true;
+    } else if (code === 22) {
+      next.bold = false;
+      next.dim = false;
+    } else if (code === 23) {
+      next.italic = false;
+    } else if (code === 24) {
+      next.underline = false;
+    } else if (code >= 30 && code <= 37) {
+      next.color = COLORS[code - 30];
+    } else if (code >= 90 && code <= 97) {
+      next.color = COLORS[code - 90 + 8];
+    } else if (code >= 40 && code <= 47) {
+      next.background = COLORS[code - 40];
+    } else if (code >= 100 && code <= 107) {
+      next.background = COLORS[code - 100 + 8];
+    } else if (code === 39) {
+      delete next.color;
+    } else if (code === 49) {
+      delete next.background;
+    } else if (code === 38 || code === 48) {
+      let value: string | undefined;
+      if (codes[i + 1] === 5) {
+        value = color256(codes[i + 2]);
+        i += 2;
+      } else if (codes[i + 1] === 2) {
+        value = `rgb(${codes[i + 2] || 0}, ${codes[i + 3] || 0}, ${codes[i + 4] || 0})`;
+        i += 4;
+      }
+      if (value) {
+        if (code === 38) next.color = value;
+        else next.background = value;
+      }
+    }
+  }
+
+  return next;
+}
+
+function toCss(style: AnsiStyle): string {
+  const rules: string[] = [];
+  if (style.color) rules.push(`color: ${style.color}`);
+  if (style.background) rules.push(`background-color: ${style.background}`);
+  if (style.bold) rules.push('font-weight: bold');
+  if (style.dim) rules.push('opacity: 0.7');
+  if (style.italic) rules.push('font-style: italic');
+  if (style.underline) rules.push('text-decoration: underline');
+  return rules.join('; ');
+}
+
+/**
+ * Convert terminal output with ANSI SGR color codes to HTML-escaped markup with inline styles
+ */
+export function ansiToHtml(text: string): string {
+  let html = '';
+  let style: AnsiStyle = {};
+  let lastIndex = 0;
+
+  const appendText = (chunk: string) => {
+    if (!chunk) return;
+    const css = toCss(style);
+    html += css ? `<span style="${css}">${escapeHtml(chunk)}</span>` : escapeHtml(chunk);
+  };
+
+  const pattern = new RegExp(ANSI_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    appendText(text.slice(lastIndex, match.index));
+    const codes = match[1] === '' ? [0] : match[1].split(';').map(code => parseInt(code, 10) || 0);
+    style = applyCodes(style, codes);
+    lastIndex = match.index + match[0].length;
+  }
+  appendText(text.slice(lastIndex));
+
+  // Drop any other escape sequences (cursor movement, erase line) that have no HTML equivalent
+  return html.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+}
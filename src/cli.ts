@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { showReport } from './report-server';
+import EnhancedReporter from './index';
+import { compareReports } from './compare-reports';
+
+const USAGE = `Usage: playwright-enhanced-reporter <command> [options]
+
+Commands:
+  show-report [dir]     Serve an existing report and open it in the browser
+                        (dir defaults to ./test-results/reports)
+  merge-reports <path...>
+                        Merge partial reports written by sharded runs into one report;
+                        paths are partial-report*.json files or directories searched recursively
+  compare <base> <head> Diff two detailed-report.json files (or report directories), e.g. main
+                        vs. a feature branch, into compare-report.html and compare-report.md
+
+Options for show-report:
+  --port <port>         Port to serve the report on (default: 9323)
+  --host <host>         Host to bind to (default: localhost)
+  --file <name>         HTML file inside the report directory (default: enhanced-report.html)
+
+Options for merge-reports:
+  --output-dir <dir>    Directory for the merged report (default: ./test-results/reports)
+  --output-file <name>  Name of the merged HTML file (default: enhanced-report.html)
+  --title <title>       Title of the merged report
+  --offline             Embed Chart.js and icons in the HTML
+
+Options for compare:
+  --output-dir <dir>    Directory for the comparison (default: ./test-results/reports)
+  --title <title>       Title of the comparison
+
+  -h, --help            Show this help`;
+
+// Flags that take no value
+const BOOLEAN_FLAGS = new Set(['offline']);
+
+interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], flags: {} };
+  
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      parsed.flags.help = 'true';
+    } else if (arg.startsWith('--')) {
+      const [name, inlineValue] = arg.slice(2).split('=', 2);
+      parsed.flags[name] = inlineValue ?? (BOOLEAN_FLAGS.has(name) ? 'true' : argv[++i] ?? '');
+    } else if (!parsed.command) {
+      parsed.command = arg;
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+  
+  return parsed;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  
+  if (!args.command || args.flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  
+  switch (args.command) {
+    case 'show-report': {
+      const reportDir = path.resolve(args.positionals[0] || path.join('test-results', 'reports'));
+      await showReport(reportDir, {
+        host: args.flags.host,
+        port: args.flags.port ? parseInt(args.flags.port, 10) : undefined,
+        indexFile: args.flags.file
+      });
+      break;
+    }
+    case 'merge-reports': {
+      if (args.positionals.length === 0) {
+        throw new Error('merge-reports needs at least one partial report file or directory');
+      }
+      await EnhancedReporter.mergeReports(args.positionals, {
+        outputDir: args.flags['output-dir'] ? path.resolve(args.flags['output-dir']) : undefined,
+        outputFile: args.flags['output-file'],
+        title: args.flags.title,
+        offline: args.flags.offline === 'true'
+      });
+      break;
+    }
+    case 'compare': {
+      if (args.positionals.length !== 2) {
+        throw new Error('compare needs a base and a head report');
+      }
+      // A report directory stands for the detailed-report.json inside it
+      const [baseFile, headFile] = args.positionals.map(input =>
+        path.extname(input) === '.json' ? path.resolve(input) : path.resolve(input, 'detailed-report.json')
+      );
+      await compareReports(baseFile, headFile, {
+        outputDir: args.flags['output-dir'] ? path.resolve(args.flags['output-dir']) : undefined,
+        title: args.flags.title
+      });
+      break;
+    }
+    default:
+      console.error(`Unknown command "${args.command}"\n`);
+      console.log(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+  regex: RegExp;
+}
+
+export interface CodeOwners {
+  // Directory the patterns are relative to: the repository root
+  rootDir: string;
+  rules: CodeOwnersRule[];
+}
+
+// Where GitHub and GitLab look for the file, relative to the repository root
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+/**
+ * Turn a gitignore-style CODEOWNERS pattern into a regex over '/'-separated paths relative to the root
+ */
+function patternToRegex(pattern: string): RegExp {
+  // Patterns with a leading or inner slash are anchored to the root, others match at any depth
+  const anchored = pattern.startsWith('/') || pattern.replace(/\/$/, '').includes('/');
+  const glob = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' matches zero or more directories, a trailing '**' everything below
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A pattern matching a directory owns everything inside it
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`);
+}
+
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    // Skip blank lines and GitLab [Section] headers
+    if (!line || line.startsWith('[')) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners, regex: patternToRegex(pattern) });
+  }
+
+  return rules;
+}
+
+/**
+ * Load a CODEOWNERS file, or find one by walking up from startDir. Returns null when there is none.
+ */
+export function loadCodeOwners(startDir: string, file?: string): CodeOwners | null {
+  if (file) {
+    const filePath = path.resolve(startDir, file);
+    const relativeDir = path.basename(path.dirname(filePath));
+    // .github/CODEOWNERS and docs/CODEOWNERS describe their parent directory
+    const rootDir = ['.github', 'docs', '.gitlab'].includes(relativeDir) ? path.dirname(path.dirname(filePath)) : path.dirname(filePath);
+    return { rootDir, rules: parseCodeOwners(fs.readFileSync(filePath, 'utf8')) };
+  }
+
+  let dir = path.resolve(startDir);
+  while (true) {
+    for (const location of CODEOWNERS_LOCATIONS) {
+      const filePath = path.join(dir, location);
+      if (fs.existsSync(filePath)) {
+        return { rootDir: dir, rules: parseCodeOwners(fs.readFileSync(filePath, 'utf8')) };
+      }
+    }
+    // Stop at the repository root or the filesystem root
+    const parent = path.dirname(dir);
+    if (fs.existsSync(path.join(dir, '.git')) || parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Owners of a file; the last matching rule wins, and a rule without owners leaves the file unowned
+ */
+export function findOwners(codeOwners: CodeOwners, filePath: string): string[] {
+  const relativePath = path.relative(codeOwners.rootDir, path.resolve(filePath)).replace(/\\/g, '/');
+
+  for (let i = codeOwners.rules.length - 1; i >= 0; i--) {
+    if (codeOwners.rules[i].regex.test(relativePath)) {
+      return codeOwners.rules[i].owners;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Whether any test has an owner; per-owner output is pointless when everything is counted as 'Unowned'
+ */
+export function hasOwners(ownerMetrics: Record<string, unknown> | undefined): boolean {
+  return Object.keys(ownerMetrics || {}).some(owner => owner !== 'Unowned');
+}
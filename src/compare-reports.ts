@@ -0,0 +1,349 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CompareReportsOptions, ReportDiff, ReportDiffEntry, ReportDiffSide, RunChange, TestOutcome, TestResultDetail } from './types';
+import { RUN_CHANGE_ICONS, RUN_CHANGE_LABELS, classifyChange } from './run-comparison';
+import { OUTCOME_LABELS, escapeHtml } from './format';
+
+interface DetailedReport {
+  summary?: Partial<ReportDiffSide['summary']>;
+  testResults: TestResultDetail[];
+  generatedAt?: string;
+}
+
+// Listed buckets, in the order a reviewer wants to see them; unchanged tests are only counted
+const LISTED_CHANGES: RunChange[] = ['newFailure', 'stillFailing', 'fixed', 'added', 'removed'];
+
+// Duration changes below either limit are run-to-run noise
+const MIN_DURATION_CHANGE_MS = 100;
+const MIN_DURATION_CHANGE_RATIO = 0.2;
+const MAX_DURATION_CHANGES = 20;
+
+/**
+ * Read a detailed-report.json written by the reporter or by merge-reports
+ */
+export async function loadDetailedReport(file: string): Promise<DetailedReport> {
+  const report = await fs.readJSON(file);
+  if (!report || !Array.isArray(report.testResults)) {
+    throw new Error(`Not a detailed enhanced report: ${file}`);
+  }
+  return report;
+}
+
+function getTitle(result: TestResultDetail): string {
+  // Projects without a name leave an empty first segment
+  return (result.titlePath && result.titlePath.length > 0 ? result.titlePath : [result.browser, result.specFile, result.test])
+    .filter(Boolean)
+    .join(' › ');
+}
+
+function summarize(file: string, report: DetailedReport): ReportDiffSide {
+  const count = (outcome: TestOutcome) => report.testResults.filter(result => result.outcome === outcome).length;
+  const summary = report.summary || {};
+  const totalTests = summary.totalTests ?? report.testResults.length;
+  // Like the reporter, flaky tests count as passed
+  const passed = summary.passed ?? count('expected') + count('flaky');
+  const skipped = summary.skipped ?? count('skipped');
+  const ranTests = totalTests - skipped;
+  return {
+    file,
+    generatedAt: report.generatedAt,
+    summary: {
+      totalTests,
+      passed,
+      failed: summary.failed ?? count('unexpected'),
+      flaky: summary.flaky ?? count('flaky'),
+      skipped,
+      passRate: summary.passRate ?? (ranTests > 0 ? (passed / ranTests) * 100 : 0),
+      wallClockDuration: summary.wallClockDuration
+    }
+  };
+}
+
+/**
+ * Compare two reports test by test; tests are matched by id, or by title path for reports written before ids were recorded
+ */
+export function diffReports(base: DetailedReport, head: DetailedReport, baseFile = 'base', headFile = 'head'): ReportDiff {
+  const keyOf = (result: TestResultDetail) => result.testId || getTitle(result);
+  const baseByKey = new Map(base.testResults.map(result => [keyOf(result), result] as [string, TestResultDetail]));
+  const headKeys = new Set(head.testResults.map(keyOf));
+
+  const toEntry = (testId: string, baseResult?: TestResultDetail, headResult?: TestResultDetail): ReportDiffEntry => ({
+    testId,
+    title: getTitle((headResult || baseResult)!),
+    change: classifyChange(headResult?.outcome, baseResult?.outcome),
+    baseOutcome: baseResult?.outcome,
+    headOutcome: headResult?.outcome,
+    baseDuration: baseResult?.duration,
+    headDuration: headResult?.duration,
+    baseErrorCategory: baseResult?.errorCategory,
+    headErrorCategory: headResult?.errorCategory
+  });
+
+  const tests = head.testResults.map(result => toEntry(keyOf(result), baseByKey.get(keyOf(result)), result))
+    .concat(base.testResults.filter(result => !headKeys.has(keyOf(result))).map(result => toEntry(keyOf(result), result)));
+
+  const counts: Record<RunChange, number> = { newFailure: 0, stillFailing: 0, fixed: 0, added: 0, removed: 0, unchanged: 0 };
+  const errorCategories: Record<string, { base: number; head: number }> = {};
+  tests.forEach(entry => {
+    counts[entry.change]++;
+    if (entry.baseOutcome === 'unexpected' && entry.baseErrorCategory) {
+      (errorCategories[entry.baseErrorCategory] = errorCategories[entry.baseErrorCategory] || { base: 0, head: 0 }).base++;
+    }
+    if (entry.headOutcome === 'unexpected' && entry.headErrorCategory) {
+      (errorCategories[entry.headErrorCategory] = errorCategories[entry.headErrorCategory] || { base: 0, head: 0 }).head++;
+    }
+  });
+
+  return { base: summarize(baseFile, base), head: summarize(headFile, head), counts, tests, errorCategories };
+}
+
+/**
+ * Tests that ran in both reports and got noticeably slower or faster, largest change first
+ */
+export function getDurationChanges(diff: ReportDiff): ReportDiffEntry[] {
+  return diff.tests
+    .filter(entry => {
+      if (entry.baseDuration === undefined || entry.headDuration === undefined) return false;
+      if (entry.baseOutcome === 'skipped' || entry.headOutcome === 'skipped') return false;
+      const delta = Math.abs(entry.headDuration - entry.baseDuration);
+      return delta >= MIN_DURATION_CHANGE_MS && delta >= entry.baseDuration * MIN_DURATION_CHANGE_RATIO;
+    })
+    .sort((a, b) => Math.abs(b.headDuration! - b.baseDuration!) - Math.abs(a.headDuration! - a.baseDuration!))
+    .slice(0, MAX_DURATION_CHANGES);
+}
+
+/**
+ * Tests failing in both reports whose failure is now categorized differently
+ */
+export function getErrorCategoryChanges(diff: ReportDiff): ReportDiffEntry[] {
+  return diff.tests.filter(entry =>
+    entry.change === 'stillFailing' && entry.baseErrorCategory !== entry.headErrorCategory
+  );
+}
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '-';
+  return Math.abs(ms) < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatDelta(base: number | undefined, head: number | undefined, format: (value: number) => string): string {
+  if (base === undefined || head === undefined) return '-';
+  const delta = head - base;
+  return `${delta > 0 ? '+' : delta < 0 ? '-' : '±'}${format(Math.abs(delta))}`;
+}
+
+function formatOutcome(outcome: TestOutcome | undefined): string {
+  return outcome ? OUTCOME_LABELS[outcome] : '-';
+}
+
+function getSummaryRows(diff: ReportDiff): Array<[string, string, string, string]> {
+  const base = diff.base.summary;
+  const head = diff.head.summary;
+  const countRow = (label: string, key: 'totalTests' | 'passed' | 'failed' | 'flaky' | 'skipped'): [string, string, string, string] =>
+    [label, String(base[key]), String(head[key]), formatDelta(base[key], head[key], String)];
+
+  return [
+    countRow('Tests', 'totalTests'),
+    countRow('Passed', 'passed'),
+    countRow('Failed', 'failed'),
+    countRow('Flaky', 'flaky'),
+    countRow('Skipped', 'skipped'),
+    ['Pass rate', `${base.passRate.toFixed(1)}%`, `${head.passRate.toFixed(1)}%`, formatDelta(base.passRate, head.passRate, value => `${value.toFixed(1)} pt`)],
+    ['Wall-clock duration', formatDuration(base.wallClockDuration), formatDuration(head.wallClockDuration), formatDelta(base.wallClockDuration, head.wallClockDuration, formatDuration)]
+  ];
+}
+
+function getHeadline(diff: ReportDiff): string {
+  return diff.counts.newFailure > 0
+    ? `❌ ${diff.counts.newFailure} newly failing test(s) (passed or skipped in base)`
+    : '✅ No newly failing tests';
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdown).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Markdown diff, e.g. for a pull request comment
+ */
+export function renderDiffMarkdown(diff: ReportDiff, title = 'Test Report Comparison'): string {
+  const sections: string[] = [
+    `# ${title}`,
+    `**Base:** \`${diff.base.file}\`${diff.base.generatedAt ? ` (${diff.base.generatedAt})` : ''}  \n**Head:** \`${diff.head.file}\`${diff.head.generatedAt ? ` (${diff.head.generatedAt})` : ''}`,
+    `**${getHeadline(diff)}**`,
+    markdownTable(['', 'Base', 'Head', 'Change'], getSummaryRows(diff)),
+    (Object.keys(RUN_CHANGE_ICONS) as RunChange[]).map(change => `${RUN_CHANGE_ICONS[change]} ${RUN_CHANGE_LABELS[change]}: ${diff.counts[change]}`).join(' · ')
+  ];
+
+  LISTED_CHANGES.forEach(change => {
+    const entries = diff.tests.filter(entry => entry.change === change);
+    if (entries.length === 0) return;
+    sections.push(`## ${RUN_CHANGE_ICONS[change]} ${RUN_CHANGE_LABELS[change]} (${entries.length})`);
+    sections.push(markdownTable(['Test', 'Base', 'Head', 'Error category'], entries.map(entry => [
+      entry.title, formatOutcome(entry.baseOutcome), formatOutcome(entry.headOutcome), entry.headErrorCategory || entry.baseErrorCategory || '-'
+    ])));
+  });
+
+  const durationChanges = getDurationChanges(diff);
+  if (durationChanges.length > 0) {
+    sections.push('## ⏱️ Duration changes');
+    sections.push(markdownTable(['Test', 'Base', 'Head', 'Change'], durationChanges.map(entry => [
+      entry.title, formatDuration(entry.baseDuration), formatDuration(entry.headDuration), formatDelta(entry.baseDuration, entry.headDuration, formatDuration)
+    ])));
+  }
+
+  const categories = Object.entries(diff.errorCategories);
+  if (categories.length > 0) {
+    sections.push('## 🏷️ Error categories');
+    sections.push(markdownTable(['Category', 'Base', 'Head', 'Change'], categories.map(([category, counts]) => [
+      category, String(counts.base), String(counts.head), formatDelta(counts.base, counts.head, String)
+    ])));
+  }
+
+  const categoryChanges = getErrorCategoryChanges(diff);
+  if (categoryChanges.length > 0) {
+    sections.push('## 🔀 Changed error categories');
+    sections.push(markdownTable(['Test', 'Base', 'Head'], categoryChanges.map(entry => [
+      entry.title, entry.baseErrorCategory || '-', entry.headErrorCategory || '-'
+    ])));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+function htmlTable(header: string[], rows: string[][], rowClasses: string[] = []): string {
+  return `
+    <table>
+      <thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${rows.map((row, i) => `<tr${rowClasses[i] ? ` class="${rowClasses[i]}"` : ''}>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n        ')}
+      </tbody>
+    </table>`;
+}
+
+/**
+ * Self-contained HTML diff with the same sections as the markdown
+ */
+export function renderDiffHTML(diff: ReportDiff, title = 'Test Report Comparison'): string {
+  const sections: string[] = [];
+
+  LISTED_CHANGES.forEach(change => {
+    const entries = diff.tests.filter(entry => entry.change === change);
+    if (entries.length === 0) return;
+    sections.push(`
+  <section class="change-${change}">
+    <h2>${RUN_CHANGE_ICONS[change]} ${RUN_CHANGE_LABELS[change]} (${entries.length})</h2>
+    ${htmlTable(['Test', 'Base', 'Head', 'Error category'], entries.map(entry => [
+      entry.title, formatOutcome(entry.baseOutcome), formatOutcome(entry.headOutcome), entry.headErrorCategory || entry.baseErrorCategory || '-'
+    ]))}
+  </section>`);
+  });
+
+  const durationChanges = getDurationChanges(diff);
+  if (durationChanges.length > 0) {
+    sections.push(`
+  <section>
+    <h2>⏱️ Duration changes</h2>
+    ${htmlTable(['Test', 'Base', 'Head', 'Change'], durationChanges.map(entry => [
+      entry.title, formatDuration(entry.baseDuration), formatDuration(entry.headDuration), formatDelta(entry.baseDuration, entry.headDuration, formatDuration)
+    ]), durationChanges.map(entry => (entry.headDuration! > entry.baseDuration! ? 'slower' : 'faster')))}
+  </section>`);
+  }
+
+  const categories = Object.entries(diff.errorCategories);
+  if (categories.length > 0) {
+    sections.push(`
+  <section>
+    <h2>🏷️ Error categories</h2>
+    ${htmlTable(['Category', 'Base', 'Head', 'Change'], categories.map(([category, counts]) => [
+      category, String(counts.base), String(counts.head), formatDelta(counts.base, counts.head, String)
+    ]))}
+  </section>`);
+  }
+
+  const categoryChanges = getErrorCategoryChanges(diff);
+  if (categoryChanges.length > 0) {
+    sections.push(`
+  <section>
+    <h2>🔀 Changed error categories</h2>
+    ${htmlTable(['Test', 'Base', 'Head'], categoryChanges.map(entry => [entry.title, entry.baseErrorCategory || '-', entry.headErrorCategory || '-']))}
+  </section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: 'Roboto', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 0; padding: 24px; background: #fafafa; color: #212121; }
+    h1 { margin-top: 0; }
+    h2 { font-size: 1.1rem; margin: 0 0 8px; }
+    section { background: #fff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.12); padding: 16px; margin-bottom: 16px; border-left: 4px solid #e0e0e0; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e0e0e0; }
+    th { background: #f5f5f5; }
+    .sources { color: #73879C; font-size: 0.85rem; }
+    .headline { font-size: 1.1rem; font-weight: 600; }
+    .counts { display: flex; flex-wrap: wrap; gap: 12px; }
+    .count { background: #f5f5f5; border-radius: 6px; padding: 8px 12px; }
+    .change-newFailure { border-left-color: #f44336; }
+    .change-stillFailing { border-left-color: #b71c1c; }
+    .change-fixed { border-left-color: #4caf50; }
+    .change-added { border-left-color: #2196f3; }
+    .change-removed { border-left-color: #9e9e9e; }
+    tr.slower td:last-child { color: #f44336; }
+    tr.faster td:last-child { color: #4caf50; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="sources">
+    Base: <code>${escapeHtml(diff.base.file)}</code>${diff.base.generatedAt ? ` (${escapeHtml(diff.base.generatedAt)})` : ''}<br>
+    Head: <code>${escapeHtml(diff.head.file)}</code>${diff.head.generatedAt ? ` (${escapeHtml(diff.head.generatedAt)})` : ''}
+  </p>
+  <section class="${diff.counts.newFailure > 0 ? 'change-newFailure' : 'change-fixed'}">
+    <p class="headline">${escapeHtml(getHeadline(diff))}</p>
+    ${htmlTable(['', 'Base', 'Head', 'Change'], getSummaryRows(diff))}
+    <div class="counts">
+      ${(Object.keys(RUN_CHANGE_ICONS) as RunChange[]).map(change => `<span class="count">${RUN_CHANGE_ICONS[change]} ${RUN_CHANGE_LABELS[change]}: <strong>${diff.counts[change]}</strong></span>`).join('\n      ')}
+    </div>
+  </section>
+  ${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Diff two detailed-report.json files and write compare-report.html and compare-report.md
+ */
+export async function compareReports(baseFile: string, headFile: string, options: CompareReportsOptions = {}): Promise<ReportDiff> {
+  const outputDir = options.outputDir || path.join(process.cwd(), 'test-results', 'reports');
+  const [base, head] = await Promise.all([loadDetailedReport(baseFile), loadDetailedReport(headFile)]);
+  const diff = diffReports(base, head, baseFile, headFile);
+
+  await fs.ensureDir(outputDir);
+  const htmlPath = path.join(outputDir, 'compare-report.html');
+  const markdownPath = path.join(outputDir, 'compare-report.md');
+  await fs.writeFile(htmlPath, renderDiffHTML(diff, options.title));
+  await fs.writeFile(markdownPath, renderDiffMarkdown(diff, options.title));
+
+  console.log(`\n🔍 ${getHeadline(diff)}`);
+  (Object.keys(RUN_CHANGE_ICONS) as RunChange[]).forEach(change => {
+    console.log(`   ${RUN_CHANGE_ICONS[change]} ${RUN_CHANGE_LABELS[change]}: ${diff.counts[change]}`);
+  });
+  console.log(`📄 Comparison saved to: ${htmlPath}`);
+  console.log(`📝 Markdown comparison saved to: ${markdownPath}`);
+
+  return diff;
+}
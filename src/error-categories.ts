@@ -0,0 +1,51 @@
+import { ErrorCategoryRule, ErrorClassifier, ErrorInfo } from './types';
+
+// Colors for categories whose rule has none, in the order they are first seen
+export const ERROR_CATEGORY_PALETTE = ['#E74C3C', '#F39C12', '#FFD119', '#3498DB', '#9f7aea', '#1ABB9C', '#e83e8c', '#20c997'];
+
+export const FALLBACK_ERROR_CATEGORY = 'Other';
+
+/**
+ * The reporter's original substring checks, in their original order
+ */
+export const DEFAULT_ERROR_CATEGORY_RULES: ErrorCategoryRule[] = [
+  { category: 'Timeout', match: /timeout|Timeout/, color: '#E74C3C' },
+  { category: 'Selector/Locator', match: /selector|locator/, color: '#F39C12' },
+  { category: 'Network', match: /network|fetch/, color: '#FFD119' },
+  { category: 'Assertion', match: /assertion|expected/, color: '#3498DB' },
+  { category: 'Navigation', match: /navigation|page/, color: '#9f7aea' }
+];
+
+function ruleMatches(rule: ErrorCategoryRule, error: ErrorInfo): boolean {
+  if (rule.match !== undefined) {
+    const regex = typeof rule.match === 'string' ? new RegExp(rule.match) : rule.match;
+    const field = rule.field || 'message';
+    const targets = field === 'any' ? [error.message, error.stack || ''] : [field === 'stack' ? error.stack || '' : error.message];
+    // Reset global regexes so a previous test() does not leave lastIndex behind
+    if (!targets.some(target => ((regex.lastIndex = 0), regex.test(target)))) return false;
+  }
+  if (rule.status !== undefined) {
+    const statuses = Array.isArray(rule.status) ? rule.status : [rule.status];
+    if (!statuses.includes(error.status)) return false;
+  }
+  if (rule.predicate && !rule.predicate(error)) return false;
+  return true;
+}
+
+/**
+ * Category of a failure: the custom classifier wins when it returns one, then the first matching rule, then 'Other'
+ */
+export function categorizeError(
+  error: ErrorInfo,
+  rules: ErrorCategoryRule[],
+  classifier?: ErrorClassifier
+): { category: string; color?: string } {
+  if (classifier) {
+    const classified = classifier(error);
+    if (typeof classified === 'string') return { category: classified };
+    if (classified) return classified;
+  }
+
+  const rule = rules.find(candidate => ruleMatches(candidate, error));
+  return rule ? { category: rule.category, color: rule.color } : { category: FALLBACK_ERROR_CATEGORY };
+}
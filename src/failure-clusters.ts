@@ -0,0 +1,83 @@
+import { TestResultDetail } from './types';
+
+export interface FailureCluster {
+  signature: string;
+  // Test indexes in the order they appear in the report
+  tests: Array<{ result: TestResultDetail; index: number }>;
+  sampleError: string;
+}
+
+// Only the part of a message that describes the failure; call logs and long diffs differ per test
+const MAX_SIGNATURE_LINES = 5;
+
+/**
+ * Reduce an error to what stays the same when one cause breaks many tests: ANSI codes, URLs, UUIDs,
+ * numbers (timeouts, ports, line numbers) and the call log are dropped.
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .split(/\n\s*Call log:/)[0]
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/[^\s'"`)]+/gi, '<url>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<n>')
+    .replace(/\d+(?:\.\d+)*/g, '<n>')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .slice(0, MAX_SIGNATURE_LINES)
+    .join('\n');
+}
+
+/**
+ * Top stack frame outside node_modules and the test's own spec file, without line and column.
+ * Frames in the spec differ for every test, while a shared helper or page object failing is worth telling apart.
+ */
+export function normalizeTopFrame(stack: string | undefined, specFile: string): string | undefined {
+  if (!stack) return undefined;
+
+  const spec = specFile.replace(/\\/g, '/');
+  for (const line of stack.split('\n')) {
+    const frame = /^\s*at (?:(.+?) \()?(.+?):\d+:\d+\)?$/.exec(line);
+    if (!frame) continue;
+
+    const file = frame[2].replace(/\\/g, '/');
+    if (file.includes('/node_modules/') || file.startsWith('node:')) continue;
+    if (spec && file.endsWith(spec)) return undefined;
+    const relative = file.split('/').slice(-2).join('/');
+    return frame[1] ? `${frame[1]} (${relative})` : relative;
+  }
+
+  return undefined;
+}
+
+/**
+ * Signature shared by failures with the same cause: the normalized message plus the top helper frame
+ */
+export function getErrorSignature(message: string, stack: string | undefined, specFile: string): string {
+  const frame = normalizeTopFrame(stack, specFile);
+  return normalizeErrorMessage(message) + (frame ? `\n    at ${frame}` : '');
+}
+
+/**
+ * Group failed tests by normalized error signature, largest clusters first
+ */
+export function clusterFailures(
+  testResults: TestResultDetail[],
+  getMessage: (result: TestResultDetail) => string
+): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+
+  testResults.forEach((result, index) => {
+    if (result.outcome !== 'unexpected' || !result.error) return;
+
+    const message = getMessage(result);
+    const signature = getErrorSignature(message, result.errorStack, result.specFile);
+
+    const cluster = clusters.get(signature) || { signature, tests: [], sampleError: message };
+    cluster.tests.push({ result, index });
+    clusters.set(signature, cluster);
+  });
+
+  return Array.from(clusters.values()).sort((a, b) => b.tests.length - a.tests.length);
+}
@@ -0,0 +1,16 @@
+import { TestOutcome } from './types';
+
+// How each final outcome is shown in reports and summaries
+export const OUTCOME_LABELS: Record<TestOutcome, string> = { expected: 'passed', unexpected: 'failed', flaky: 'flaky', skipped: 'skipped' };
+
+/**
+ * Escape HTML characters to prevent XSS, in element content and quoted attribute values alike
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
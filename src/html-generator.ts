@@ -1,10 +1,32 @@
-import { TestMetrics, TestResultDetail } from './types';
+import { TestMetrics, TestResultDetail, TestStepDetail, RunError, AnnotationDimension, TestLink, TestFlakiness, TestHistoryEntry, RunChange, RunComparison } from './types';
+import { OfflineAssets } from './offline-assets';
+import { DEFAULT_ANNOTATION_DIMENSIONS, getDimensionLabel } from './annotations';
+import { ERROR_CATEGORY_PALETTE } from './error-categories';
+import { FailureCluster, clusterFailures } from './failure-clusters';
+import { RUN_CHANGE_LABELS } from './run-comparison';
+import { hasOwners } from './codeowners';
+import { ansiToHtml } from './ansi-to-html';
+import { OUTCOME_LABELS, escapeHtml } from './format';
 
 export interface HTMLGeneratorOptions {
   title?: string;
   includeCharts?: boolean;
   theme?: 'light' | 'dark' | 'auto';
   trendsData?: any[];
+  offline?: boolean;
+  consoleOutputLimit?: number;
+  runErrors?: RunError[];
+  annotations?: AnnotationDimension[];
+  // Recorded runs per test id, oldest first
+  testHistory?: Map<string, TestHistoryEntry[]>;
+}
+
+interface SuiteTreeNode {
+  title: string;
+  kind: 'root' | 'project' | 'file' | 'describe';
+  children: Map<string, SuiteTreeNode>;
+  tests: Array<{ result: TestResultDetail; index: number }>;
+  counts: { passed: number; failed: number; flaky: number; skipped: number };
 }
 
 export class EnhancedHTMLGenerator {
@@ -22,18 +44,6 @@ export class EnhancedHTMLGenerator {
       .trim();
   }
 
-  /**
-   * Escape HTML characters to prevent XSS
-   */
-  private static escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
-  }
-
   static generateHTML(
     metrics: TestMetrics, 
     testResults: TestResultDetail[], 
@@ -43,9 +53,15 @@ export class EnhancedHTMLGenerator {
       title = 'Enhanced Test Execution Report',
       includeCharts = true,
       theme = 'auto',
-      trendsData = []
+      trendsData = [],
+      offline = false,
+      consoleOutputLimit = 50000,
+      runErrors = [],
+      annotations = DEFAULT_ANNOTATION_DIMENSIONS,
+      testHistory = new Map<string, TestHistoryEntry[]>()
     } = options;
 
+    const failureClusters = clusterFailures(testResults, result => this.sanitizeErrorMessage(result.error));
     const passRate = metrics.passRate.toFixed(1);
     const failRate = metrics.failRate.toFixed(1);
     const avgDuration = metrics.avgDuration.toFixed(0);
@@ -58,8 +74,8 @@ export class EnhancedHTMLGenerator {
     <meta http-equiv="X-UA-Compatible" content="IE=edge">
     <meta name="viewport" content="width=device-width, initial-scale=1">
     <title>${title}</title>
-    ${includeCharts ? '<script src="https://cdn.jsdelivr.net/npm/chart.js"></script>' : ''}
-    <link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0/css/all.min.css" rel="stylesheet">
+    ${includeCharts ? this.getChartLibraryTag(offline) : ''}
+    ${this.getIconStylesTag(offline)}
     <style>
         ${this.getCSS()}
     </style>
@@ -69,10 +85,16 @@ export class EnhancedHTMLGenerator {
         <div class="navbar-container">
             <a href="#" class="navbar-brand">🎯 ${title}</a>
             <ul class="navbar-nav">
+                ${metrics.runComparison ? '<li><a href="#changes" class="nav-link">Changes</a></li>' : ''}
                 <li><a href="#overview" class="nav-link">Overview</a></li>
                 ${includeCharts ? '<li><a href="#charts" class="nav-link">Charts</a></li>' : ''}
+                ${includeCharts ? '<li><a href="#timeline" class="nav-link">Timeline</a></li>' : ''}
                 ${trendsData.length > 0 ? '<li><a href="#trends" class="nav-link">Trends</a></li>' : ''}
                 <li><a href="#insights" class="nav-link">Insights</a></li>
+                ${metrics.slowerThanUsual ? '<li><a href="#slower" class="nav-link">Slower</a></li>' : ''}
+                ${failureClusters.length > 0 ? '<li><a href="#clusters" class="nav-link">Clusters</a></li>' : ''}
+                ${hasOwners(metrics.ownerMetrics) ? '<li><a href="#owners" class="nav-link">Owners</a></li>' : ''}
+                <li><a href="#suites" class="nav-link">Suites</a></li>
                 <li><a href="#details" class="nav-link">Details</a></li>
             </ul>
             <button class="darkmode-toggle" onclick="toggleDarkMode()">
@@ -82,21 +104,156 @@ export class EnhancedHTMLGenerator {
     </nav>
 
     <div class="main_container">
+        ${this.generateRunStatusBanner(metrics)}
+        ${runErrors.length > 0 ? this.generateRunErrorsSection(runErrors) : ''}
+        ${metrics.runComparison ? this.generateRunComparisonSection(metrics.runComparison, testResults) : ''}
         ${this.generateOverviewSection(metrics, passRate, failRate, avgDuration)}
         ${this.generateMetricsSection(metrics, passRate, failRate, avgDuration)}
-        ${includeCharts ? this.generateChartsSection(metrics) : ''}
+        ${includeCharts ? this.generateChartsSection(metrics, annotations) : ''}
+        ${includeCharts ? this.generateWorkerTimelineSection(testResults) : ''}
         ${trendsData.length > 0 ? this.generateTrendsSection(trendsData) : ''}
-        ${metrics.flaky > 0 ? this.generateFlakyTestsSection(testResults) : ''}
-        ${this.generateDetailsSection(testResults)}
+        ${metrics.flaky > 0 ? this.generateFlakyTestsSection(testResults, annotations) : ''}
+        ${this.generateUnstableTestsSection(testResults)}
+        ${metrics.slowerThanUsual ? this.generateSlowerThanUsualSection(testResults) : ''}
+        ${failureClusters.length > 0 ? this.generateFailureClustersSection(failureClusters) : ''}
+        ${hasOwners(metrics.ownerMetrics) ? this.generateOwnersSection(metrics) : ''}
+        ${this.generateSuiteTreeSection(testResults)}
+        ${this.generateDetailsSection(testResults, consoleOutputLimit, annotations, testHistory)}
     </div>
 
     <script>
-        ${this.getJavaScript(metrics, includeCharts, trendsData)}
+        ${this.getJavaScript(metrics, includeCharts, trendsData, annotations)}
     </script>
 </body>
 </html>`;
   }
 
+  /**
+   * Chart.js from the CDN, or embedded from the installed package in offline mode
+   */
+  private static getChartLibraryTag(offline: boolean): string {
+    if (offline) {
+      return `<script>${OfflineAssets.getChartScript()}</script>`;
+    }
+    return '<script src="https://cdn.jsdelivr.net/npm/chart.js"></script>';
+  }
+
+  /**
+   * Font Awesome from the CDN, or embedded from the installed package in offline mode
+   */
+  private static getIconStylesTag(offline: boolean): string {
+    if (offline) {
+      return `<style>${OfflineAssets.getIconStyles()}</style>`;
+    }
+    return '<link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0/css/all.min.css" rel="stylesheet">';
+  }
+
+  private static generateRunStatusBadge(metrics: TestMetrics): string {
+    const status = metrics.runStatus;
+    if (!status) return '-';
+    
+    const badgeClass = status === 'passed' ? 'status-passed' : status === 'failed' ? 'status-failed' : 'status-interrupted';
+    return `<span class="status-badge ${badgeClass}">${status}</span>`;
+  }
+
+  /**
+   * Warning shown when the run was cut short, so a partial run is not mistaken for a clean, smaller one
+   */
+  private static generateRunStatusBanner(metrics: TestMetrics): string {
+    const cutShort = metrics.runStatus === 'timedout' || metrics.runStatus === 'interrupted' || (metrics.notRunTests ?? 0) > 0;
+    if (!cutShort) return '';
+    
+    return `
+        <!-- Run Status Banner -->
+        <div class="run-status-banner">
+            <i class="fas fa-hourglass-end"></i>
+            <div>
+                <strong>Run ${metrics.runStatus === 'timedout' ? 'timed out' : metrics.runStatus === 'interrupted' ? 'was interrupted' : 'ended early'}.</strong>
+                ${escapeHtml(metrics.exitReason || '')}
+            </div>
+        </div>`;
+  }
+
+  /**
+   * Banner for errors raised outside of tests (globalSetup, worker crashes), which leave results incomplete
+   */
+  private static generateRunErrorsSection(runErrors: RunError[]): string {
+    return `
+        <!-- Run Errors Banner -->
+        <div class="run-errors-banner" id="run-errors">
+            <div class="run-errors-title">
+                <i class="fas fa-exclamation-circle"></i>
+                ${runErrors.length} run error(s) occurred outside of tests. Results below may be incomplete.
+            </div>
+            ${runErrors.map(error => `
+                <div class="run-error">
+                    <div class="run-error-message">${escapeHtml(this.sanitizeErrorMessage(error.message))}</div>
+                    ${error.location ? `<div class="run-error-location"><i class="fas fa-file-code"></i> ${escapeHtml(`${error.location.file}:${error.location.line}:${error.location.column}`)}</div>` : ''}
+                    ${error.stack && error.stack !== error.message ? `
+                    <details>
+                        <summary>Stack trace</summary>
+                        <pre class="attempt-error">${escapeHtml(this.sanitizeErrorMessage(error.stack))}</pre>
+                    </details>` : ''}
+                </div>
+            `).join('')}
+        </div>`;
+  }
+
+  /**
+   * Changes since the previous run, regressions first; tests that are still in this run link to their row
+   */
+  private static generateRunComparisonSection(comparison: RunComparison, testResults: TestResultDetail[]): string {
+    const maxListedTests = 20;
+    const buckets: RunChange[] = ['newFailure', 'stillFailing', 'fixed', 'added', 'removed', 'unchanged'];
+    const indexById = new Map(testResults.map((result, index) => [result.testId, index] as [string, number]));
+    
+    return `
+        <!-- Run Comparison Row -->
+        <div class="row" id="changes">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-exchange-alt"></i> Changes since last run</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        ${comparison.previousRun ? `<p class="changes-summary">Compared with the run that ended ${escapeHtml(new Date(comparison.previousRun).toLocaleString())}</p>` : ''}
+                        <div class="change-counts">
+                            ${buckets.map(change => `
+                            <div class="change-count change-${change}">
+                                <span class="change-count-value">${comparison.counts[change]}</span>
+                                <span class="change-count-label">${RUN_CHANGE_LABELS[change]}</span>
+                            </div>`).join('')}
+                        </div>
+                        ${buckets.filter(change => change !== 'unchanged').map(change => {
+                          const entries = comparison.changes.filter(entry => entry.change === change);
+                          if (entries.length === 0) return '';
+                          return `
+                        <details class="change-group change-${change}"${change === 'newFailure' ? ' open' : ''}>
+                            <summary>${RUN_CHANGE_LABELS[change]} (${entries.length})</summary>
+                            <ul class="change-tests">
+                                ${entries.slice(0, maxListedTests).map(entry => {
+                                  const index = indexById.get(entry.testId);
+                                  const name = index !== undefined ? this.getTitlePath(testResults[index]).slice(1).join(' › ') : entry.test;
+                                  const outcomes = [entry.previousOutcome, entry.outcome].map(outcome => (outcome ? OUTCOME_LABELS[outcome] : '-')).join(' → ');
+                                  return `
+                                <li>
+                                    ${index !== undefined ? `<a href="#test-row-${index}" onclick="event.preventDefault(); revealTest(${index})">${escapeHtml(name)}</a>` : escapeHtml(name)}
+                                    <span class="change-outcomes">${outcomes}</span>
+                                </li>`;
+                                }).join('')}
+                                ${entries.length > maxListedTests ? `<li class="cluster-more">and ${entries.length - maxListedTests} more</li>` : ''}
+                            </ul>
+                        </details>`;
+                        }).join('')}
+                    </div>
+                </div>
+            </div>
+        </div>`;
+  }
+
   private static generateOverviewSection(metrics: TestMetrics, passRate: string, failRate: string, avgDuration: string): string {
     return `
         <!-- Overview Row -->
@@ -183,6 +340,14 @@ export class EnhancedHTMLGenerator {
                     </div>
                     <div class="x_content">
                         <table class="info-table">
+                            <tr>
+                                <td>Run Status</td>
+                                <td>${this.generateRunStatusBadge(metrics)}</td>
+                            </tr>
+                            <tr>
+                                <td>Exit Reason</td>
+                                <td>${escapeHtml(metrics.exitReason || '-')}</td>
+                            </tr>
                             <tr>
                                 <td>Execution Date</td>
                                 <td>${metrics.startTime.toLocaleDateString()}</td>
@@ -196,7 +361,11 @@ export class EnhancedHTMLGenerator {
                                 <td>${metrics.endTime.toLocaleTimeString()}</td>
                             </tr>
                             <tr>
-                                <td>Total Duration</td>
+                                <td>Wall-clock Duration</td>
+                                <td>${metrics.wallClockDuration !== undefined ? `${(metrics.wallClockDuration / 1000).toFixed(2)}s` : '-'}</td>
+                            </tr>
+                            <tr>
+                                <td>Cumulative Test Time</td>
                                 <td>${(metrics.duration / 1000).toFixed(2)}s</td>
                             </tr>
                             <tr>
@@ -205,7 +374,7 @@ export class EnhancedHTMLGenerator {
                             </tr>
                             <tr>
                                 <td>Tests per Second</td>
-                                <td>${(metrics.totalTests / ((metrics.duration || 1) / 1000)).toFixed(2)}</td>
+                                <td>${(metrics.totalTests / ((metrics.wallClockDuration || metrics.duration || 1) / 1000)).toFixed(2)}</td>
                             </tr>
                         </table>
                     </div>
@@ -234,20 +403,36 @@ export class EnhancedHTMLGenerator {
                                 <div class="metric-subtitle">${passRate}% success rate</div>
                             </div>
                             <div class="metric-card failed">
-                                <div class="metric-label">Failed Tests</div>
-                                <div class="metric-value">${metrics.failed}</div>
-                                <div class="metric-subtitle">${failRate}% failure rate</div>
+                                <div class="metric-label">${metrics.knownFailures ? 'New Failures' : 'Failed Tests'}</div>
+                                <div class="metric-value">${metrics.failed - (metrics.knownFailures || 0)}</div>
+                                <div class="metric-subtitle">${metrics.knownFailures ? `${metrics.failed} failed in total` : `${failRate}% failure rate`}</div>
                             </div>
+                            ${metrics.knownFailures ? `
+                            <div class="metric-card known">
+                                <div class="metric-label">Known Issues</div>
+                                <div class="metric-value">${metrics.knownFailures}</div>
+                                <div class="metric-subtitle">Failures matching known-issues file</div>
+                            </div>` : ''}
                             <div class="metric-card flaky">
                                 <div class="metric-label">Flaky Tests</div>
                                 <div class="metric-value">${metrics.flaky}</div>
                                 <div class="metric-subtitle">Passed after retry</div>
                             </div>
                             <div class="metric-card duration">
-                                <div class="metric-label">Total Duration</div>
+                                <div class="metric-label">Wall-clock Duration</div>
+                                <div class="metric-value">${metrics.wallClockDuration !== undefined ? `${(metrics.wallClockDuration / 1000).toFixed(1)}s` : '-'}</div>
+                                <div class="metric-subtitle">Real time from start to finish</div>
+                            </div>
+                            <div class="metric-card duration">
+                                <div class="metric-label">Cumulative Test Time</div>
                                 <div class="metric-value">${(metrics.duration / 1000).toFixed(1)}s</div>
                                 <div class="metric-subtitle">Avg: ${avgDuration}ms per test</div>
                             </div>
+                            <div class="metric-card duration">
+                                <div class="metric-label">Parallel Efficiency</div>
+                                <div class="metric-value">${metrics.parallelEfficiency !== undefined ? `${metrics.parallelEfficiency.toFixed(0)}%` : '-'}</div>
+                                <div class="metric-subtitle">${metrics.parallelism !== undefined ? `${metrics.parallelism.toFixed(1)}x speed-up on ${metrics.workers} worker(s)` : 'Worker time spent running tests'}</div>
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -255,7 +440,7 @@ export class EnhancedHTMLGenerator {
         </div>`;
   }
 
-  private static generateFlakyTestsSection(testResults: TestResultDetail[]): string {
+  private static generateFlakyTestsSection(testResults: TestResultDetail[], annotations: AnnotationDimension[]): string {
     const flakyTests = testResults.filter(r => r.isFlaky);
     
     return `
@@ -280,19 +465,25 @@ export class EnhancedHTMLGenerator {
                                         <th>Test Name</th>
                                         <th>Browser</th>
                                         <th>Retry Count</th>
+                                        <th>Flakiness</th>
                                         <th>Duration</th>
-                                        <th>Feature</th>
+                                        ${annotations.map(dimension => `<th>${escapeHtml(getDimensionLabel(dimension))}</th>`).join('')}
                                         <th>Spec File</th>
                                     </tr>
                                 </thead>
                                 <tbody>
                                     ${flakyTests.map(result => `
                                         <tr class="flaky-row">
-                                            <td><strong>${result.test}</strong></td>
+                                            <td>
+                                                <strong>${result.test}</strong>
+                                                ${this.getDescribePath(result).length > 0 ? `<div class="test-title-path">${escapeHtml(this.getDescribePath(result).join(' › '))}</div>` : ''}
+                                                ${this.generateLinksHTML(result.links)}
+                                            </td>
                                             <td><i class="fas fa-globe"></i> ${result.browser}</td>
                                             <td><span class="retry-badge-large"><i class="fas fa-redo"></i> ${result.retry}</span></td>
+                                            <td>${this.generateFlakinessHTML(result.flakiness)}</td>
                                             <td><i class="fas fa-clock"></i> ${result.duration}ms</td>
-                                            <td><i class="fas fa-tag"></i> ${result.allureProperties?.feature || 'Unknown'}</td>
+                                            ${annotations.map(dimension => `<td><i class="fas fa-tag"></i> ${escapeHtml(this.getAnnotationValue(result, dimension))}</td>`).join('')}
                                             <td><i class="fas fa-file-code"></i> ${result.specFile}</td>
                                         </tr>
                                     `).join('')}
@@ -305,6 +496,136 @@ export class EnhancedHTMLGenerator {
         </div>`;
   }
 
+  private static generateFlakinessHTML(flakiness: TestFlakiness | undefined): string {
+    if (!flakiness) return '-';
+    const level = flakiness.score >= 30 ? 'high' : flakiness.score >= 10 ? 'medium' : 'low';
+    const details = `${flakiness.flips} flip(s) and ${flakiness.flakyRuns} retried pass(es) in ${flakiness.runs} run(s)`;
+    return `<span class="flakiness-score flakiness-${level}" title="${details}">${flakiness.score}%</span> <span class="flakiness-runs">${flakiness.runs} run(s)</span>`;
+  }
+
+  /**
+   * Leaderboard of the tests with the highest flakiness score, including ones that passed first try this run
+   */
+  private static generateUnstableTestsSection(testResults: TestResultDetail[]): string {
+    const maxTests = 10;
+    const unstable = testResults
+      .map((result, index) => ({ result, index }))
+      // A single run has nothing to flip against
+      .filter(({ result }) => result.flakiness && result.flakiness.runs > 1 && result.flakiness.score > 0)
+      .sort((a, b) => b.result.flakiness!.score - a.result.flakiness!.score || b.result.flakiness!.runs - a.result.flakiness!.runs)
+      .slice(0, maxTests);
+    
+    if (unstable.length === 0) return '';
+    
+    return `
+        <!-- Unstable Tests Row -->
+        <div class="row" id="unstable">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-random"></i> Most Unstable Tests</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        <div class="table-responsive">
+                            <table class="data-table unstable-table">
+                                <thead>
+                                    <tr>
+                                        <th>#</th>
+                                        <th>Test Name</th>
+                                        <th>Flakiness</th>
+                                        <th>Flips</th>
+                                        <th>Passed on Retry</th>
+                                        <th>This Run</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    ${unstable.map(({ result, index }, rank) => `
+                                        <tr>
+                                            <td>${rank + 1}</td>
+                                            <td>
+                                                <a href="#test-row-${index}" onclick="event.preventDefault(); revealTest(${index})"><strong>${escapeHtml(result.test)}</strong></a>
+                                                ${this.getDescribePath(result).length > 0 ? `<div class="test-title-path">${escapeHtml(this.getDescribePath(result).join(' › '))}</div>` : ''}
+                                            </td>
+                                            <td>${this.generateFlakinessHTML(result.flakiness)}</td>
+                                            <td>${result.flakiness!.flips}</td>
+                                            <td>${result.flakiness!.flakyRuns}</td>
+                                            <td><span class="status-badge status-${this.getOutcomeLabel(result)}">${this.getOutcomeLabel(result)}</span></td>
+                                        </tr>
+                                    `).join('')}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>`;
+  }
+
+  /**
+   * Passing tests that took noticeably longer than their historical median, biggest slowdown first
+   */
+  private static generateSlowerThanUsualSection(testResults: TestResultDetail[]): string {
+    const slower = testResults
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) => result.durationRegression)
+      .sort((a, b) => b.result.durationRegression!.ratio - a.result.durationRegression!.ratio);
+    
+    return `
+        <!-- Slower Than Usual Row -->
+        <div class="row" id="slower">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-hourglass-half"></i> Slower than usual</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        <div class="table-responsive">
+                            <table class="data-table slower-table">
+                                <thead>
+                                    <tr>
+                                        <th>Test Name</th>
+                                        <th>Browser</th>
+                                        <th>This Run</th>
+                                        <th>Median</th>
+                                        <th>Increase</th>
+                                        <th>Runs</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    ${slower.map(({ result, index }) => `
+                                        <tr>
+                                            <td>
+                                                <a href="#test-row-${index}" onclick="event.preventDefault(); revealTest(${index})"><strong>${escapeHtml(result.test)}</strong></a>
+                                                ${this.getDescribePath(result).length > 0 ? `<div class="test-title-path">${escapeHtml(this.getDescribePath(result).join(' › '))}</div>` : ''}
+                                            </td>
+                                            <td>${escapeHtml(result.browser)}</td>
+                                            <td>${result.duration}ms</td>
+                                            <td>${result.durationRegression!.median}ms</td>
+                                            <td>${this.generateDurationRegressionBadge(result)} +${result.duration - result.durationRegression!.median}ms</td>
+                                            <td>${result.durationRegression!.runs}</td>
+                                        </tr>
+                                    `).join('')}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>`;
+  }
+
+  private static generateDurationRegressionBadge(result: TestResultDetail): string {
+    const regression = result.durationRegression!;
+    const title = `Median ${regression.median}ms over ${regression.runs} earlier passing runs`;
+    return `<span class="slower-badge" title="${escapeHtml(title)}"><i class="fas fa-hourglass-half"></i> ${regression.ratio.toFixed(1)}x</span>`;
+  }
+
   private static generateTrendsSection(trendsData: any[]): string {
     return `
         <!-- Trends Row -->
@@ -352,7 +673,7 @@ export class EnhancedHTMLGenerator {
         </div>`;
   }
 
-  private static generateChartsSection(metrics: TestMetrics): string {
+  private static generateChartsSection(metrics: TestMetrics, annotations: AnnotationDimension[]): string {
     return `
         <!-- Charts Row -->
         <div class="row" id="charts">
@@ -372,193 +693,726 @@ export class EnhancedHTMLGenerator {
                 </div>
             </div>
 
+            ${annotations.map((dimension, index) => `
             <div class="col-md-6">
                 <div class="x_panel">
                     <div class="x_title" onclick="togglePanel(this)">
-                        <h2><i class="fas fa-chart-bar"></i> Severity Distribution</h2>
+                        <h2><i class="fas fa-chart-bar"></i> ${escapeHtml(getDimensionLabel(dimension))} Distribution</h2>
                         <ul class="panel_toolbox">
                             <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
                         </ul>
                     </div>
                     <div class="x_content">
                         <div style="height: 300px; display: flex; justify-content: center; align-items: center;">
-                            <canvas id="severity-chart" style="max-height: 250px;"></canvas>
+                            <canvas id="annotation-chart-${index}" style="max-height: 250px;"></canvas>
                         </div>
                     </div>
                 </div>
-            </div>
+            </div>`).join('')}
         </div>`;
   }
 
-  private static generateDetailsSection(testResults: TestResultDetail[]): string {
+  /**
+   * Gantt-style chart with one lane per worker slot and one bar per attempt, colored by status
+   */
+  private static generateWorkerTimelineSection(testResults: TestResultDetail[]): string {
+    const bars = testResults.flatMap(result => result.attempts
+      // Attempts that never reached a worker (e.g. after an interrupt) have no place on the timeline
+      .filter(attempt => attempt.workerIndex >= 0 && !isNaN(new Date(attempt.startTime).getTime()))
+      .map(attempt => ({
+        test: result.test,
+        attempt,
+        shard: result.shard,
+        start: new Date(attempt.startTime).getTime()
+      })));
+    
+    if (bars.length === 0) return '';
+    
+    const runStart = bars.reduce((min, bar) => Math.min(min, bar.start), Infinity);
+    const runEnd = bars.reduce((max, bar) => Math.max(max, bar.start + bar.attempt.duration), -Infinity);
+    const span = Math.max(runEnd - runStart, 1);
+    
+    // Worker slots repeat on every shard of a merged report, so lanes are keyed by shard too
+    const laneKey = (shard: number | undefined, parallelIndex: number) => `${shard ?? 0}:${parallelIndex}`;
+    const lanes = new Map<string, { shard?: number; parallelIndex: number; bars: typeof bars }>();
+    bars.forEach(bar => {
+      const key = laneKey(bar.shard, bar.attempt.parallelIndex);
+      const lane = lanes.get(key) || { shard: bar.shard, parallelIndex: bar.attempt.parallelIndex, bars: [] };
+      lane.bars.push(bar);
+      lanes.set(key, lane);
+    });
+    const sortedLanes = Array.from(lanes.values())
+      .sort((a, b) => (a.shard ?? 0) - (b.shard ?? 0) || a.parallelIndex - b.parallelIndex);
+    const multipleShards = new Set(sortedLanes.map(lane => lane.shard)).size > 1;
+    
+    const ticks = [0, 0.25, 0.5, 0.75, 1].map(fraction => `
+                            <span class="timeline-tick" style="left: ${fraction * 100}%;">${((span * fraction) / 1000).toFixed(1)}s</span>`).join('');
+    
     return `
-        <!-- Test Details Row -->
-        <div class="row" id="details">
+        <!-- Worker Timeline Row -->
+        <div class="row" id="timeline">
             <div class="col-md-12">
                 <div class="x_panel">
                     <div class="x_title" onclick="togglePanel(this)">
-                        <h2><i class="fas fa-list"></i> Test Details</h2>
+                        <h2><i class="fas fa-stream"></i> Worker Timeline</h2>
                         <ul class="panel_toolbox">
                             <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
                         </ul>
                     </div>
                     <div class="x_content">
-                        <!-- Filters Section -->
-                        <div class="filters-container">
-                            <div class="filter-group">
-                                <label for="search-input"><i class="fas fa-search"></i> Search</label>
-                                <input type="text" id="search-input" placeholder="Search test names..." class="filter-input">
-                            </div>
-                            <div class="filter-group">
-                                <label for="status-filter"><i class="fas fa-filter"></i> Status</label>
-                                <select id="status-filter" class="filter-select">
-                                    <option value="">All</option>
-                                    <option value="passed">Passed</option>
-                                    <option value="failed">Failed</option>
-                                    <option value="skipped">Skipped</option>
-                                </select>
-                            </div>
-                            <div class="filter-group">
-                                <label for="browser-filter"><i class="fas fa-globe"></i> Browser</label>
-                                <select id="browser-filter" class="filter-select">
-                                    <option value="">All</option>
-                                </select>
-                            </div>
-                            <div class="filter-group">
-                                <label for="severity-filter"><i class="fas fa-exclamation-triangle"></i> Severity</label>
-                                <select id="severity-filter" class="filter-select">
-                                    <option value="">All</option>
-                                    <option value="critical">Critical</option>
-                                    <option value="high">High</option>
-                                    <option value="medium">Medium</option>
-                                    <option value="normal">Normal</option>
-                                    <option value="low">Low</option>
-                                </select>
-                            </div>
-                            <div class="filter-group">
-                                <label for="feature-filter"><i class="fas fa-tag"></i> Feature</label>
-                                <select id="feature-filter" class="filter-select">
-                                    <option value="">All</option>
-                                </select>
-                            </div>
-                            <button id="clear-filters" class="clear-filters-btn"><i class="fas fa-times-circle"></i> Clear Filters</button>
-                        </div>
-                        <div class="results-summary">
-                            Showing <span id="visible-count">0</span> of <span id="total-count">0</span> tests
-                            <div class="export-buttons">
-                                <button id="export-csv" class="export-btn" title="Export to CSV">
-                                    <i class="fas fa-file-csv"></i> CSV
-                                </button>
-                                <button id="export-json" class="export-btn" title="Export to JSON">
-                                    <i class="fas fa-file-code"></i> JSON
-                                </button>
-                            </div>
-                        </div>
-                        <div class="pagination-controls">
-                            <div class="pagination-info">
-                                <label for="page-size">Rows per page:</label>
-                                <select id="page-size" class="page-size-select">
-                                    <option value="10">10</option>
-                                    <option value="25" selected>25</option>
-                                    <option value="50">50</option>
-                                    <option value="100">100</option>
-                                    <option value="all">All</option>
-                                </select>
-                            </div>
-                            <div class="pagination-buttons">
-                                <button id="first-page" class="pagination-btn" title="First Page">
-                                    <i class="fas fa-angle-double-left"></i>
-                                </button>
-                                <button id="prev-page" class="pagination-btn" title="Previous Page">
-                                    <i class="fas fa-angle-left"></i>
-                                </button>
-                                <span class="page-indicator">
-                                    Page <span id="current-page">1</span> of <span id="total-pages">1</span>
-                                </span>
-                                <button id="next-page" class="pagination-btn" title="Next Page">
-                                    <i class="fas fa-angle-right"></i>
-                                </button>
-                                <button id="last-page" class="pagination-btn" title="Last Page">
-                                    <i class="fas fa-angle-double-right"></i>
-                                </button>
+                        <div class="worker-timeline">
+                            <div class="timeline-axis">${ticks}
                             </div>
+                            ${sortedLanes.map(lane => {
+                              const laneBars = lane.bars;
+                              const busy = laneBars.reduce((sum, bar) => sum + bar.attempt.duration, 0);
+                              return `
+                            <div class="timeline-lane">
+                                <div class="timeline-lane-label" title="${((busy / span) * 100).toFixed(0)}% busy">
+                                    ${multipleShards ? `S${lane.shard} · ` : ''}Worker ${lane.parallelIndex}
+                                    <span class="timeline-lane-usage">${((busy / span) * 100).toFixed(0)}%</span>
+                                </div>
+                                <div class="timeline-lane-track">
+                                    ${laneBars.map(bar => {
+                                      const left = ((bar.start - runStart) / span) * 100;
+                                      const width = Math.max((bar.attempt.duration / span) * 100, 0.2);
+                                      const tooltip = `${bar.test}${bar.attempt.retry > 0 ? ` (retry #${bar.attempt.retry})` : ''}\n${bar.attempt.status} · ${bar.attempt.duration}ms · worker process ${bar.attempt.workerIndex}`;
+                                      return `<div class="timeline-bar timeline-${bar.attempt.status}" style="left: ${left.toFixed(3)}%; width: ${width.toFixed(3)}%;" title="${escapeHtml(tooltip)}"></div>`;
+                                    }).join('')}
+                                </div>
+                            </div>`;
+                            }).join('')}
                         </div>
-                        <div class="table-responsive">
-                            <table class="data-table">
-                                <thead>
-                                    <tr>
-                                        <th>Test Name</th>
-                                        <th>Status</th>
-                                        <th>Browser</th>
-                                        <th>Spec File</th>
-                                        <th>Duration</th>
-                                        <th>Retry</th>
-                                        <th>Severity</th>
-                                        <th>Feature</th>
-                                        <th>Attachments</th>
-                                        <th>Error</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    ${testResults.map((result, index) => `
-                                        <tr>
-                                            <td><strong>${result.test}</strong></td>
-                                            <td>
-                                                <span class="status-badge status-${result.status}">
-                                                    <i class="fas fa-${result.status === 'passed' ? 'check' : result.status === 'failed' ? 'times' : 'minus'}"></i>
-                                                    ${result.status}
-                                                </span>
-                                            </td>
-                                            <td><i class="fas fa-globe"></i> ${result.browser}</td>
-                                            <td><i class="fas fa-file-code"></i> ${result.specFile}</td>
-                                            <td><i class="fas fa-clock"></i> ${result.duration}ms</td>
-                                            <td>${result.retry > 0 ? `<span class="retry-badge"><i class="fas fa-redo"></i> ${result.retry}</span>` : '-'}</td>
-                                            <td><i class="fas fa-exclamation-triangle"></i> ${result.allureProperties?.severity || 'normal'}</td>
-                                            <td><i class="fas fa-tag"></i> ${result.allureProperties?.feature || 'Unknown'}</td>
-                                            <td>${this.generateAttachmentsHTML(result.attachments, index)}</td>
-                                            <td style="max-width: 300px; word-wrap: break-word;">${this.escapeHtml(this.sanitizeErrorMessage(result.error))}</td>
-                                        </tr>
-                                    `).join('')}
-                                </tbody>
-                            </table>
+                        <div class="timeline-legend">
+                            <span><span class="timeline-swatch timeline-passed"></span> Passed</span>
+                            <span><span class="timeline-swatch timeline-failed"></span> Failed</span>
+                            <span><span class="timeline-swatch timeline-timedOut"></span> Timed out / Interrupted</span>
+                            <span><span class="timeline-swatch timeline-skipped"></span> Skipped</span>
                         </div>
                     </div>
                 </div>
             </div>
-        </div>
-        
-        <!-- Lightbox Modal -->
-        <div id="lightbox" class="lightbox" onclick="closeLightbox()">
-            <span class="lightbox-close">&times;</span>
-            <img class="lightbox-content" id="lightbox-img">
-            <video class="lightbox-content" id="lightbox-video" controls style="display:none;"></video>
-            <div class="lightbox-caption" id="lightbox-caption"></div>
-            <div class="lightbox-nav">
+        </div>`;
+  }
+
+  /**
+   * Full title path of a test: project, file, describe blocks and title. Older reports without one fall back to file and title.
+   */
+  private static getTitlePath(result: TestResultDetail): string[] {
+    return result.titlePath && result.titlePath.length > 0
+      ? result.titlePath
+      : [result.browser, result.specFile, result.test];
+  }
+
+  private static getDescribePath(result: TestResultDetail): string[] {
+    return this.getTitlePath(result).slice(2, -1);
+  }
+
+  /**
+   * Failed tests grouped by normalized error signature, so one broken dependency shows up as one entry
+   */
+  private static generateFailureClustersSection(clusters: FailureCluster[]): string {
+    const maxListedTests = 20;
+    
+    return `
+        <!-- Failure Clusters Row -->
+        <div class="row" id="clusters">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-layer-group"></i> Failure Clusters</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        <p class="clusters-summary">${clusters.reduce((sum, cluster) => sum + cluster.tests.length, 0)} failed test(s) in ${clusters.length} cluster(s)</p>
+                        ${clusters.map(cluster => `
+                        <details class="failure-cluster"${cluster.tests.length > 1 ? ' open' : ''}>
+                            <summary>
+                                <span class="cluster-count">${cluster.tests.length}</span>
+                                <code class="cluster-signature">${escapeHtml(cluster.signature.split('\n')[0])}</code>
+                            </summary>
+                            <div class="cluster-body">
+                                <div class="cluster-label">Signature</div>
+                                <pre class="cluster-pre">${escapeHtml(cluster.signature)}</pre>
+                                <div class="cluster-label">Sample error (${escapeHtml(cluster.tests[0].result.test)})</div>
+                                <pre class="cluster-pre">${escapeHtml(cluster.sampleError)}</pre>
+                                <div class="cluster-label">Affected tests</div>
+                                <ul class="cluster-tests">
+                                    ${cluster.tests.slice(0, maxListedTests).map(({ result, index }) => `
+                                    <li><a href="#test-row-${index}" onclick="event.preventDefault(); revealTest(${index})">${escapeHtml(this.getTitlePath(result).slice(1).join(' › '))}</a></li>`).join('')}
+                                    ${cluster.tests.length > maxListedTests ? `<li class="cluster-more">and ${cluster.tests.length - maxListedTests} more</li>` : ''}
+                                </ul>
+                            </div>
+                        </details>`).join('')}
+                    </div>
+                </div>
+            </div>
+        </div>`;
+  }
+
+  private static getOwners(result: TestResultDetail): string[] {
+    return result.owners && result.owners.length > 0 ? result.owners : ['Unowned'];
+  }
+
+  /**
+   * Per-team totals, teams with the most failures first
+   */
+  private static generateOwnersSection(metrics: TestMetrics): string {
+    const owners = Object.entries(metrics.ownerMetrics)
+      .sort(([a, am], [b, bm]) => bm.failed - am.failed || bm.flaky - am.flaky || a.localeCompare(b));
+
+    return `
+        <!-- Owners Row -->
+        <div class="row" id="owners">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-users"></i> Owners</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        <div class="table-responsive">
+                            <table class="data-table owners-table">
+                                <thead>
+                                    <tr>
+                                        <th>Owner</th>
+                                        <th>Total</th>
+                                        <th>Passed</th>
+                                        <th>Failed</th>
+                                        <th>Flaky</th>
+                                        <th>Skipped</th>
+                                        <th>Pass Rate</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    ${owners.map(([owner, ownerMetrics]) => `
+                                        <tr class="${ownerMetrics.failed > 0 ? 'owner-failing' : ''}">
+                                            <td><strong><i class="fas fa-users"></i> ${escapeHtml(owner)}</strong></td>
+                                            <td>${ownerMetrics.total}</td>
+                                            <td>${ownerMetrics.passed}</td>
+                                            <td>${ownerMetrics.failed}</td>
+                                            <td>${ownerMetrics.flaky}</td>
+                                            <td>${ownerMetrics.skipped}</td>
+                                            <td>${((ownerMetrics.passed / ownerMetrics.total) * 100).toFixed(1)}%</td>
+                                        </tr>
+                                    `).join('')}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>`;
+  }
+
+  /**
+   * Collapsible project > file > describe > test tree with pass/fail counts aggregated at every level
+   */
+  private static generateSuiteTreeSection(testResults: TestResultDetail[]): string {
+    if (testResults.length === 0) return '';
+
+    const root: SuiteTreeNode = this.createSuiteTreeNode('', 'root');
+    testResults.forEach((result, index) => {
+      const [project, file, ...rest] = this.getTitlePath(result);
+      const describes = rest.slice(0, -1);
+      const path: Array<[string, SuiteTreeNode['kind']]> = [
+        [project || 'Default project', 'project'],
+        [file, 'file'],
+        ...describes.map(title => [title, 'describe'] as [string, SuiteTreeNode['kind']])
+      ];
+
+      let node = root;
+      this.countOutcome(node, result);
+      path.forEach(([title, kind]) => {
+        const key = `${kind}:${title}`;
+        let child = node.children.get(key);
+        if (!child) {
+          child = this.createSuiteTreeNode(title, kind);
+          node.children.set(key, child);
+        }
+        node = child;
+        this.countOutcome(node, result);
+      });
+      node.tests.push({ result, index });
+    });
+
+    return `
+        <!-- Suite Tree Row -->
+        <div class="row" id="suites">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-sitemap"></i> Test Suites</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        <div class="suite-tree">
+                            ${Array.from(root.children.values()).map(child => this.generateSuiteTreeNodeHTML(child)).join('')}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>`;
+  }
+
+  private static createSuiteTreeNode(title: string, kind: SuiteTreeNode['kind']): SuiteTreeNode {
+    return { title, kind, children: new Map(), tests: [], counts: { passed: 0, failed: 0, flaky: 0, skipped: 0 } };
+  }
+
+  private static countOutcome(node: SuiteTreeNode, result: TestResultDetail) {
+    if (result.outcome === 'flaky') node.counts.flaky++;
+    else if (result.outcome === 'skipped') node.counts.skipped++;
+    else if (result.outcome === 'unexpected') node.counts.failed++;
+    else node.counts.passed++;
+  }
+
+  private static generateSuiteTreeNodeHTML(node: SuiteTreeNode): string {
+    const icons = { root: 'folder', project: 'globe', file: 'file-code', describe: 'folder' };
+    const { passed, failed, flaky, skipped } = node.counts;
+    // Suites with failures start expanded so problems are visible without clicking through
+    return `
+                            <details class="suite-node suite-${node.kind}${failed > 0 ? ' suite-has-failures' : ''}"${failed > 0 ? ' open' : ''}>
+                                <summary>
+                                    <i class="fas fa-${icons[node.kind]}"></i>
+                                    <span class="suite-title">${escapeHtml(node.title)}</span>
+                                    <span class="suite-counts">
+                                        ${passed > 0 ? `<span class="suite-count suite-count-passed" title="Passed">${passed}</span>` : ''}
+                                        ${failed > 0 ? `<span class="suite-count suite-count-failed" title="Failed">${failed}</span>` : ''}
+                                        ${flaky > 0 ? `<span class="suite-count suite-count-flaky" title="Flaky">${flaky}</span>` : ''}
+                                        ${skipped > 0 ? `<span class="suite-count suite-count-skipped" title="Skipped">${skipped}</span>` : ''}
+                                    </span>
+                                </summary>
+                                <div class="suite-children">
+                                    ${Array.from(node.children.values()).map(child => this.generateSuiteTreeNodeHTML(child)).join('')}
+                                    ${node.tests.map(({ result, index }) => `
+                                    <div class="suite-test" onclick="revealTest(${index})" title="Show in Test Details">
+                                        <span class="status-badge status-${this.getOutcomeLabel(result)}">${this.getOutcomeLabel(result)}</span>
+                                        <span class="suite-title">${escapeHtml(result.test)}</span>
+                                        <span class="suite-test-duration">${result.duration}ms</span>
+                                    </div>`).join('')}
+                                </div>
+                            </details>`;
+  }
+
+  /**
+   * Final outcome across retries as shown in the table: a timed-out failure is 'failed', an expected failure 'passed'
+   */
+  private static getOutcomeLabel(result: TestResultDetail): string {
+    return OUTCOME_LABELS[result.outcome] || result.status;
+  }
+
+  private static generateKnownIssueBadge(result: TestResultDetail): string {
+    const issue = result.knownIssue!;
+    const title = [issue.ticket, issue.reason].filter(Boolean).join(': ') || 'Known issue';
+    const label = `<i class="fas fa-thumbtack"></i> known${issue.ticket ? ` · ${escapeHtml(issue.ticket)}` : ''}`;
+    return issue.url
+      ? `<a class="known-issue-badge" href="${escapeHtml(issue.url)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(title)}">${label}</a>`
+      : `<span class="known-issue-badge" title="${escapeHtml(title)}">${label}</span>`;
+  }
+
+  private static generateTagChipsHTML(tags: string[] | undefined): string {
+    if (!tags || tags.length === 0) return '';
+    return `<div class="tag-chips">${tags.map(tag => `<span class="tag-chip">${escapeHtml(tag)}</span>`).join('')}</div>`;
+  }
+
+  private static getAnnotationValue(result: TestResultDetail, dimension: AnnotationDimension): string {
+    return result.allureProperties?.[dimension.type] || dimension.default || 'Unknown';
+  }
+
+  private static getAnnotationValues(result: TestResultDetail, annotations: AnnotationDimension[]): Record<string, string> {
+    return annotations.reduce<Record<string, string>>((values, dimension) => {
+      values[dimension.type] = this.getAnnotationValue(result, dimension);
+      return values;
+    }, {});
+  }
+
+  /**
+   * Filter options for a dimension: its allowed values when declared, otherwise the values present in the run
+   */
+  private static getAnnotationFilterValues(testResults: TestResultDetail[], dimension: AnnotationDimension): string[] {
+    const present = Array.from(new Set(testResults.map(result => this.getAnnotationValue(result, dimension)))).sort();
+    return dimension.values ? dimension.values.concat(present.filter(value => !dimension.values!.includes(value))) : present;
+  }
+
+  private static generateLinksHTML(links: TestLink[] | undefined): string {
+    if (!links || links.length === 0) return '';
+    const icons: Record<string, string> = { issue: 'bug', tms: 'clipboard-check' };
+    return `<div class="test-links">${links.map(link => {
+      const content = `<i class="fas fa-${icons[link.type] || 'link'}"></i> ${escapeHtml(link.name)}`;
+      return link.url
+        ? `<a class="test-link test-link-${escapeHtml(link.type)}" href="${escapeHtml(link.url)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(link.type)}">${content}</a>`
+        : `<span class="test-link test-link-${escapeHtml(link.type)}" title="${escapeHtml(link.type)}">${content}</span>`;
+    }).join('')}</div>`;
+  }
+
+  /**
+   * Inline SVG with one bar per recent run: height is the duration, color the outcome, hover shows date and status
+   */
+  private static generateHistorySparkline(entries: TestHistoryEntry[] | undefined): string {
+    const maxRuns = 20;
+    const runs = (entries || []).slice(-maxRuns);
+    if (runs.length === 0) return '-';
+    
+    const barWidth = 4;
+    const gap = 2;
+    const height = 20;
+    const maxDuration = Math.max(...runs.map(run => run.duration), 1);
+    const bars = runs.map((run, i) => {
+      const barHeight = Math.max(3, Math.round((run.duration / maxDuration) * height));
+      const tooltip = `${new Date(run.timestamp).toLocaleString()} · ${OUTCOME_LABELS[run.outcome] || run.status} · ${run.duration}ms`;
+      return `<rect class="spark-${run.outcome}" x="${i * (barWidth + gap)}" y="${height - barHeight}" width="${barWidth}" height="${barHeight}" rx="1"><title>${escapeHtml(tooltip)}</title></rect>`;
+    }).join('');
+    
+    return `<svg class="history-sparkline" width="${runs.length * (barWidth + gap) - gap}" height="${height}" viewBox="0 0 ${runs.length * (barWidth + gap) - gap} ${height}">${bars}</svg>`;
+  }
+
+  private static generateDetailsSection(testResults: TestResultDetail[], consoleOutputLimit: number, annotations: AnnotationDimension[], testHistory: Map<string, TestHistoryEntry[]>): string {
+    return `
+        <!-- Test Details Row -->
+        <div class="row" id="details">
+            <div class="col-md-12">
+                <div class="x_panel">
+                    <div class="x_title" onclick="togglePanel(this)">
+                        <h2><i class="fas fa-list"></i> Test Details</h2>
+                        <ul class="panel_toolbox">
+                            <li><a class="collapse-link"><i class="fas fa-chevron-up"></i></a></li>
+                        </ul>
+                    </div>
+                    <div class="x_content">
+                        <!-- Filters Section -->
+                        <div class="filters-container">
+                            <div class="filter-group">
+                                <label for="search-input"><i class="fas fa-search"></i> Search</label>
+                                <input type="text" id="search-input" placeholder="Search tests and describe blocks..." class="filter-input">
+                            </div>
+                            <div class="filter-group">
+                                <label for="status-filter"><i class="fas fa-filter"></i> Status</label>
+                                <select id="status-filter" class="filter-select">
+                                    <option value="">All</option>
+                                    <option value="passed">Passed</option>
+                                    <option value="flaky">Flaky</option>
+                                    <option value="failed">Failed</option>
+                                    <option value="skipped">Skipped</option>
+                                    <option value="known">Known issue</option>
+                                </select>
+                            </div>
+                            <div class="filter-group">
+                                <label for="browser-filter"><i class="fas fa-globe"></i> Browser</label>
+                                <select id="browser-filter" class="filter-select">
+                                    <option value="">All</option>
+                                </select>
+                            </div>
+                            ${annotations.map((dimension, index) => `
+                            <div class="filter-group">
+                                <label for="annotation-filter-${index}"><i class="fas fa-tag"></i> ${escapeHtml(getDimensionLabel(dimension))}</label>
+                                <select id="annotation-filter-${index}" class="filter-select annotation-filter" data-dimension="${escapeHtml(dimension.type)}">
+                                    <option value="">All</option>
+                                    ${this.getAnnotationFilterValues(testResults, dimension).map(value => `<option value="${escapeHtml(value)}">${escapeHtml(value)}</option>`).join('')}
+                                </select>
+                            </div>`).join('')}
+                            <div class="filter-group">
+                                <label for="tag-filter"><i class="fas fa-hashtag"></i> Tag</label>
+                                <select id="tag-filter" class="filter-select">
+                                    <option value="">All</option>
+                                </select>
+                            </div>
+                            <div class="filter-group">
+                                <label for="owner-filter"><i class="fas fa-users"></i> Owner</label>
+                                <select id="owner-filter" class="filter-select">
+                                    <option value="">All</option>
+                                    ${Array.from(new Set(testResults.flatMap(result => this.getOwners(result)))).sort().map(owner => `<option value="${escapeHtml(owner)}">${escapeHtml(owner)}</option>`).join('')}
+                                </select>
+                            </div>
+                            <button id="clear-filters" class="clear-filters-btn"><i class="fas fa-times-circle"></i> Clear Filters</button>
+                        </div>
+                        <div class="results-summary">
+                            Showing <span id="visible-count">0</span> of <span id="total-count">0</span> tests
+                            <div class="export-buttons">
+                                <button id="export-csv" class="export-btn" title="Export to CSV">
+                                    <i class="fas fa-file-csv"></i> CSV
+                                </button>
+                                <button id="export-json" class="export-btn" title="Export to JSON">
+                                    <i class="fas fa-file-code"></i> JSON
+                                </button>
+                            </div>
+                        </div>
+                        <div class="pagination-controls">
+                            <div class="pagination-info">
+                                <label for="page-size">Rows per page:</label>
+                                <select id="page-size" class="page-size-select">
+                                    <option value="10">10</option>
+                                    <option value="25" selected>25</option>
+                                    <option value="50">50</option>
+                                    <option value="100">100</option>
+                                    <option value="all">All</option>
+                                </select>
+                            </div>
+                            <div class="pagination-buttons">
+                                <button id="first-page" class="pagination-btn" title="First Page">
+                                    <i class="fas fa-angle-double-left"></i>
+                                </button>
+                                <button id="prev-page" class="pagination-btn" title="Previous Page">
+                                    <i class="fas fa-angle-left"></i>
+                                </button>
+                                <span class="page-indicator">
+                                    Page <span id="current-page">1</span> of <span id="total-pages">1</span>
+                                </span>
+                                <button id="next-page" class="pagination-btn" title="Next Page">
+                                    <i class="fas fa-angle-right"></i>
+                                </button>
+                                <button id="last-page" class="pagination-btn" title="Last Page">
+                                    <i class="fas fa-angle-double-right"></i>
+                                </button>
+                            </div>
+                        </div>
+                        <div class="table-responsive">
+                            <table class="data-table" id="test-details-table">
+                                <thead>
+                                    <tr>
+                                        <th>Test Name</th>
+                                        <th>Status</th>
+                                        <th>Browser</th>
+                                        <th>Spec File</th>
+                                        <th>Duration</th>
+                                        <th>Retry</th>
+                                        <th>History</th>
+                                        ${annotations.map(dimension => `<th>${escapeHtml(getDimensionLabel(dimension))}</th>`).join('')}
+                                        <th>Attachments</th>
+                                        <th>Error</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    ${testResults.map((result, index) => `
+                                        <tr class="test-row" id="test-row-${index}" data-outcome="${this.getOutcomeLabel(result)}" data-title-path="${escapeHtml(this.getTitlePath(result).join(' › '))}" data-tags="${escapeHtml((result.tags || []).join(' '))}" data-annotations="${escapeHtml(JSON.stringify(this.getAnnotationValues(result, annotations)))}" data-owners="${escapeHtml(JSON.stringify(this.getOwners(result)))}">
+                                            <td>
+                                                <button class="expand-btn" onclick="toggleTestDetails(${index})" title="Show details">
+                                                    <i class="fas fa-chevron-right"></i>
+                                                </button>
+                                                <strong class="test-name">${result.test}</strong>
+                                                ${this.getDescribePath(result).length > 0 ? `<div class="test-title-path">${escapeHtml(this.getDescribePath(result).join(' › '))}</div>` : ''}
+                                                ${this.generateTagChipsHTML(result.tags)}
+                                                ${this.generateLinksHTML(result.links)}
+                                                ${result.owners && result.owners.length > 0 ? `<div class="test-owners"><i class="fas fa-users"></i> ${escapeHtml(result.owners.join(', '))}</div>` : ''}
+                                            </td>
+                                            <td>
+                                                <span class="status-badge status-${this.getOutcomeLabel(result)}">
+                                                    <i class="fas fa-${{ passed: 'check', flaky: 'check', failed: 'times' }[this.getOutcomeLabel(result)] || 'minus'}"></i>
+                                                    ${this.getOutcomeLabel(result)}
+                                                </span>
+                                                ${result.knownIssue ? this.generateKnownIssueBadge(result) : ''}
+                                            </td>
+                                            <td><i class="fas fa-globe"></i> ${result.browser}</td>
+                                            <td><i class="fas fa-file-code"></i> ${result.specFile}</td>
+                                            <td><i class="fas fa-clock"></i> <span class="duration-value">${result.duration}ms</span>${result.durationRegression ? ` ${this.generateDurationRegressionBadge(result)}` : ''}</td>
+                                            <td>${result.retry > 0 ? `<span class="retry-badge"><i class="fas fa-redo"></i> ${result.retry}</span>` : '-'}</td>
+                                            <td>${this.generateHistorySparkline(testHistory.get(result.testId))}</td>
+                                            ${annotations.map(dimension => `<td><i class="fas fa-tag"></i> ${escapeHtml(this.getAnnotationValue(result, dimension))}</td>`).join('')}
+                                            <td>${this.generateAttachmentsHTML(result.attachments, index, result.attempts.length - 1)}</td>
+                                            <td class="error-cell" style="max-width: 300px; word-wrap: break-word;">${escapeHtml(this.sanitizeErrorMessage(result.error))}</td>
+                                        </tr>
+                                        ${this.generateTestDetailsRow(result, index, consoleOutputLimit, 9 + annotations.length)}
+                                    `).join('')}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+        
+        <!-- Lightbox Modal -->
+        <div id="lightbox" class="lightbox" onclick="closeLightbox()">
+            <span class="lightbox-close">&times;</span>
+            <img class="lightbox-content" id="lightbox-img">
+            <video class="lightbox-content" id="lightbox-video" controls style="display:none;"></video>
+            <div class="lightbox-caption" id="lightbox-caption"></div>
+            <div class="lightbox-nav">
                 <button class="lightbox-prev" onclick="event.stopPropagation(); navigateLightbox(-1)">❮</button>
                 <button class="lightbox-next" onclick="event.stopPropagation(); navigateLightbox(1)">❯</button>
             </div>
         </div>`;
   }
 
-  private static generateAttachmentsHTML(attachments: any[] | undefined, testIndex: number): string {
-    if (!attachments || attachments.length === 0) {
-      return '<span class="no-attachments">-</span>';
-    }
+  /**
+   * Expandable row shown under a test with its per-attempt history, step tree and console output
+   */
+  private static generateTestDetailsRow(result: TestResultDetail, testIndex: number, consoleOutputLimit: number, columnCount: number): string {
+    const hasConsoleOutput = result.attempts.some(attempt => attempt.stdout || attempt.stderr);
     
-    const attachmentIcons = attachments.map((attachment, index) => {
-      const isImage = attachment.contentType.startsWith('image/');
-      const isVideo = attachment.contentType.startsWith('video/');
-      const icon = isImage ? 'fa-image' : isVideo ? 'fa-video' : 'fa-file';
-      const clickHandler = (isImage || isVideo) 
-        ? `onclick="openLightbox('${attachment.path}', '${attachment.name}', ${testIndex}, ${index}, ${isVideo})"` 
-        : `onclick="window.open('${attachment.path}', '_blank')"`;
+    return `
+                                        <tr class="test-details-row" id="test-details-${testIndex}" style="display:none;">
+                                            <td colspan="${columnCount}">
+                                                <div class="test-details-content">
+                                                    <div class="details-tabs">
+                                                        <button class="details-tab active" data-tab="attempts" onclick="switchDetailsTab(${testIndex}, 'attempts')">
+                                                            <i class="fas fa-history"></i> Attempts (${result.attempts.length})
+                                                        </button>
+                                                        <button class="details-tab" data-tab="steps" onclick="switchDetailsTab(${testIndex}, 'steps')">
+                                                            <i class="fas fa-list-ol"></i> Steps
+                                                        </button>
+                                                        <button class="details-tab" data-tab="console" onclick="switchDetailsTab(${testIndex}, 'console')">
+                                                            <i class="fas fa-terminal"></i> Console${hasConsoleOutput ? ' <span class="console-indicator"></span>' : ''}
+                                                        </button>
+                                                    </div>
+                                                    <div class="details-tab-panel active" data-panel="attempts">
+                                                        ${this.generateAttemptsTimelineHTML(result, testIndex)}
+                                                    </div>
+                                                    <div class="details-tab-panel" data-panel="steps">
+                                                        ${this.generateStepsPanelHTML(result)}
+                                                    </div>
+                                                    <div class="details-tab-panel" data-panel="console">
+                                                        ${this.generateConsolePanelHTML(result, consoleOutputLimit)}
+                                                    </div>
+                                                </div>
+                                            </td>
+                                        </tr>`;
+  }
+
+  private static generateAttemptsTimelineHTML(result: TestResultDetail, testIndex: number): string {
+    const attemptCards = result.attempts.map((attempt, attemptIndex) => {
+      const startTime = new Date(attempt.startTime);
+      const screenshots = (attempt.attachments || []).filter(a => a.contentType.startsWith('image/') && a.path);
+      const otherAttachments = (attempt.attachments || []).filter(a => !screenshots.includes(a));
       
-      return `<button class="attachment-btn" ${clickHandler} title="${attachment.name}">
-        <i class="fas ${icon}"></i>
-      </button>`;
+      return `
+        <div class="attempt-card attempt-${attempt.status}">
+            <div class="attempt-header">
+                <span class="attempt-title">${this.getAttemptLabel(attempt.retry)}</span>
+                <span class="status-badge status-${attempt.status}">${attempt.status}</span>
+            </div>
+            <div class="attempt-meta">
+                <span><i class="fas fa-clock"></i> ${attempt.duration}ms</span>
+                <span><i class="fas fa-play"></i> ${isNaN(startTime.getTime()) ? '-' : startTime.toLocaleTimeString()}</span>
+            </div>
+            ${attempt.error ? `<pre class="attempt-error">${escapeHtml(this.sanitizeErrorMessage(attempt.error))}</pre>` : ''}
+            ${screenshots.length > 0 ? `
+            <div class="attempt-screenshots">
+                ${screenshots.map(screenshot => `
+                    <img src="${escapeHtml(screenshot.path!)}" alt="${escapeHtml(screenshot.name)}" title="${escapeHtml(screenshot.name)}"
+                         data-path="${escapeHtml(screenshot.path!)}" data-name="${escapeHtml(screenshot.name)}"
+                         onclick="openLightbox(this.dataset.path, this.dataset.name, ${testIndex}, ${attemptIndex}, ${attempt.attachments!.indexOf(screenshot)}, false)">
+                `).join('')}
+            </div>` : ''}
+            ${otherAttachments.length > 0 ? this.generateAttachmentsHTML(otherAttachments, testIndex, attemptIndex, attempt.attachments) : ''}
+        </div>`;
     }).join('');
     
-    return `<div class="attachments-container">${attachmentIcons}</div>`;
+    return `<div class="attempts-timeline">${attemptCards}</div>`;
+  }
+
+  private static getAttemptLabel(retry: number): string {
+    return retry === 0 ? 'Initial run' : `Retry #${retry}`;
+  }
+
+  private static generateStepsPanelHTML(result: TestResultDetail): string {
+    const attemptsWithSteps = result.attempts.filter(attempt => attempt.steps && attempt.steps.length > 0);
+    if (attemptsWithSteps.length === 0) {
+      return '<span class="no-attachments">No steps recorded</span>';
+    }
+    
+    return attemptsWithSteps.map(attempt => `
+        ${result.attempts.length > 1 ? `<h5 class="steps-attempt-title">${this.getAttemptLabel(attempt.retry)} <span class="status-badge status-${attempt.status}">${attempt.status}</span></h5>` : ''}
+        <div class="step-tree">${this.generateStepTreeHTML(attempt.steps || [])}</div>
+    `).join('');
+  }
+
+  private static generateConsolePanelHTML(result: TestResultDetail, consoleOutputLimit: number): string {
+    const attemptsWithOutput = result.attempts.filter(attempt => attempt.stdout || attempt.stderr);
+    if (attemptsWithOutput.length === 0) {
+      return '<span class="no-attachments">No console output</span>';
+    }
+    
+    return attemptsWithOutput.map(attempt => {
+      const streams = [
+        { name: 'stdout', output: attempt.stdout },
+        { name: 'stderr', output: attempt.stderr }
+      ].filter(stream => stream.output);
+      
+      return `
+        ${result.attempts.length > 1 ? `<h5 class="steps-attempt-title">${this.getAttemptLabel(attempt.retry)} <span class="status-badge status-${attempt.status}">${attempt.status}</span></h5>` : ''}
+        ${streams.map(stream => {
+          const output = stream.output || '';
+          const truncated = output.length > consoleOutputLimit;
+          // Keep the tail, which is where the output leading up to a failure ends up, minus any color code the cut split
+          const visibleOutput = truncated ? output.slice(-consoleOutputLimit).replace(/^(?:\x1b?\[[0-9;]*|[0-9;]+)m/, '') : output;
+          
+          return `
+            <div class="console-stream console-${stream.name}">
+                <div class="console-stream-header">
+                    <span><i class="fas fa-${stream.name === 'stderr' ? 'exclamation-circle' : 'terminal'}"></i> ${stream.name}</span>
+                    ${truncated ? `
+                    <span class="console-truncated">
+                        Showing last ${consoleOutputLimit.toLocaleString()} of ${output.length.toLocaleString()} characters
+                        ${attempt.consoleLogPath ? `<a href="${attempt.consoleLogPath}" download><i class="fas fa-download"></i> Full log</a>` : ''}
+                    </span>` : ''}
+                </div>
+                <pre class="console-output">${ansiToHtml(visibleOutput)}</pre>
+            </div>`;
+        }).join('')}`;
+    }).join('');
+  }
+
+  /**
+   * Nested steps as collapsible <details>; branches containing an error start expanded
+   */
+  private static generateStepTreeHTML(steps: TestStepDetail[]): string {
+    return steps.map(step => {
+      const hasFailure = this.stepHasFailure(step);
+      // The failing step is the innermost one carrying the error
+      const isFailingStep = !!step.error && !step.steps.some(child => this.stepHasFailure(child));
+      const classes = ['step-node', step.steps.length === 0 ? 'step-leaf' : '', hasFailure ? 'step-error' : '', isFailingStep ? 'step-failing' : '']
+        .filter(Boolean).join(' ');
+      const location = step.location ? `${step.location.file}:${step.location.line}` : '';
+      
+      return `
+        <details class="${classes}"${hasFailure ? ' open' : ''}>
+            <summary>
+                <i class="fas fa-${hasFailure ? 'times-circle' : 'check-circle'}"></i>
+                <span class="step-category">${escapeHtml(step.category)}</span>
+                <span class="step-title">${escapeHtml(step.title)}</span>
+                <span class="step-duration">${step.duration}ms</span>
+                ${location ? `<span class="step-location">${escapeHtml(location)}</span>` : ''}
+            </summary>
+            ${isFailingStep ? `<pre class="attempt-error">${escapeHtml(this.sanitizeErrorMessage(step.error))}</pre>` : ''}
+            ${step.steps.length > 0 ? `<div class="step-children">${this.generateStepTreeHTML(step.steps)}</div>` : ''}
+        </details>`;
+    }).join('');
+  }
+
+  private static stepHasFailure(step: TestStepDetail): boolean {
+    return !!step.error || step.steps.some(child => this.stepHasFailure(child));
+  }
+
+  /**
+   * Attachment buttons; indexes refer to allAttachments, the attempt's full list, when only some are shown
+   */
+  private static generateAttachmentsHTML(attachments: any[] | undefined, testIndex: number, attemptIndex: number, allAttachments = attachments): string {
+    if (!attachments || attachments.length === 0) {
+      return '<span class="no-attachments">-</span>';
+    }
+    
+    const attachmentIcons = attachments.map(attachment => {
+      const index = allAttachments!.indexOf(attachment);
+      const isImage = attachment.contentType.startsWith('image/');
+      const isVideo = attachment.contentType.startsWith('video/');
+      const icon = isImage ? 'fa-image' : isVideo ? 'fa-video' : 'fa-file';
+      // Paths and names go through data attributes, so quotes in them cannot break out of the handler
+      const clickHandler = (isImage || isVideo) 
+        ? `onclick="openLightbox(this.dataset.path, this.dataset.name, ${testIndex}, ${attemptIndex}, ${index}, ${isVideo})"` 
+        : `onclick="window.open(this.dataset.path, '_blank')"`;
+      
+      return `<button class="attachment-btn" data-path="${escapeHtml(attachment.path || '')}" data-name="${escapeHtml(attachment.name)}" ${clickHandler} title="${escapeHtml(attachment.name)}">
+        <i class="fas ${icon}"></i>
+      </button>`;
+    }).join('');
+    
+    return `<div class="attachments-container">${attachmentIcons}</div>`;
   }
 
   private static getCSS(): string {
@@ -586,1126 +1440,1943 @@ export class EnhancedHTMLGenerator {
             --md-shadow-elevation-3: 0 10px 20px rgba(0,0,0,0.19), 0 6px 6px rgba(0,0,0,0.23);
             --md-shadow-elevation-4: 0 14px 28px rgba(0,0,0,0.25), 0 10px 10px rgba(0,0,0,0.22);
         }
-        
-        body {
+        
+        body {
+            color: rgba(0, 0, 0, 0.87);
+            background: var(--md-background);
+            font-family: 'Roboto', 'Helvetica', 'Arial', sans-serif;
+            font-size: 14px;
+            font-weight: 400;
+            line-height: 1.5;
+            -webkit-font-smoothing: antialiased;
+            -moz-osx-font-smoothing: grayscale;
+        }
+
+        /* Dark Mode Styles */
+        body.darkmode {
+            --md-primary: #90caf9;
+            --md-primary-dark: #42a5f5;
+            --md-primary-light: #bbdefb;
+            --md-secondary: #f48fb1;
+            --md-success: #81c784;
+            --md-error: #ef5350;
+            --md-warning: #ffb74d;
+            --md-info: #64b5f6;
+            --md-surface: #121212;
+            --md-background: #0a0a0a;
+            --md-surface-variant: #1e1e1e;
+            --md-outline: #333333;
+            --md-outline-variant: #2a2a2a;
+            background: var(--md-background) !important;
+            color: rgba(255, 255, 255, 0.87);
+        }
+
+        body.darkmode .x_panel {
+            background: var(--md-surface) !important;
+            color: rgba(255, 255, 255, 0.87);
+            border: 1px solid var(--md-outline);
+            box-shadow: var(--md-shadow-elevation-2);
+        }
+
+        body.darkmode .x_title {
+            background: var(--md-surface) !important;
+            border-bottom: 2px solid var(--md-outline);
+            color: rgba(255, 255, 255, 0.87);
+        }
+
+        body.darkmode nav.navbar {
+            background: var(--md-surface-variant);
+            border-bottom: 1px solid var(--md-outline);
+            box-shadow: var(--md-shadow-elevation-1);
+        }
+
+        /* Navigation */
+        nav.navbar {
+            background: var(--md-surface);
+            border-bottom: 1px solid var(--md-outline-variant);
+            margin-bottom: 0;
+            padding: 16px 24px;
+            position: sticky;
+            top: 0;
+            z-index: 1000;
+            box-shadow: var(--md-shadow-elevation-1);
+            backdrop-filter: blur(8px);
+        }
+
+        .navbar-container {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            max-width: 1200px;
+            margin: 0 auto;
+        }
+
+        .navbar-brand {
+            font-size: 20px;
+            font-weight: 500;
+            color: var(--md-primary);
+            text-decoration: none;
+            transition: color 0.2s ease-in-out;
+        }
+
+        .navbar-brand:hover {
+            color: var(--md-primary-dark);
+        }
+
+        .navbar-nav {
+            display: flex;
+            gap: 8px;
+            list-style: none;
+        }
+
+        .nav-link {
+            color: rgba(0, 0, 0, 0.6);
+            text-decoration: none;
+            padding: 12px 16px;
+            border-radius: 8px;
+            transition: all 0.2s ease-in-out;
+            font-weight: 500;
+            font-size: 14px;
+        }
+
+        .nav-link:hover, .nav-link.active {
+            background: var(--md-primary);
+            color: white;
+            transform: translateY(-1px);
+            box-shadow: var(--md-shadow-elevation-2);
+        }
+
+        .darkmode-toggle {
+            background: none;
+            border: 1px solid var(--md-outline);
+            font-size: 16px;
+            color: rgba(0, 0, 0, 0.6);
+            cursor: pointer;
+            padding: 10px 12px;
+            border-radius: 8px;
+            transition: all 0.2s ease-in-out;
+            margin-left: 12px;
+        }
+
+        .darkmode-toggle:hover {
+            background: var(--md-surface-variant);
+            border-color: var(--md-primary);
+            color: var(--md-primary);
+            transform: translateY(-1px);
+        }
+
+        body.darkmode .darkmode-toggle {
+            color: #b4bfca;
+        }
+
+        body.darkmode .darkmode-toggle:hover {
+            background: #313a45;
+        }
+
+        /* Container */
+        /* Main Container */
+        .main_container {
+            padding: 20px;
+            max-width: 1400px;
+            margin: 0 auto;
+            min-height: calc(100vh - 60px);
+        }
+
+        .row {
+            display: flex;
+            flex-wrap: wrap;
+            margin: 0 -15px;
+            align-items: stretch;
+            margin-bottom: 20px;
+        }
+
+        .col-md-6, .col-lg-4, .col-md-12 {
+            padding: 0 15px;
+            margin-bottom: 20px;
+            display: flex;
+            flex-direction: column;
+        }
+
+        .col-lg-4 { 
+            flex: 0 0 33.333%; 
+            max-width: 33.333%; 
+        }
+        .col-md-6 { 
+            flex: 0 0 50%; 
+            max-width: 50%; 
+        }
+        .col-md-12 { 
+            flex: 0 0 100%; 
+            max-width: 100%; 
+        }
+
+        /* Responsive Design Fixes */
+        @media (max-width: 1200px) {
+            .main_container {
+                max-width: 100%;
+                padding: 15px;
+            }
+        }
+
+        @media (max-width: 992px) {
+            .col-lg-4 { 
+                flex: 0 0 50%; 
+                max-width: 50%; 
+            }
+            .metrics-grid {
+                grid-template-columns: repeat(2, 1fr);
+                gap: 15px;
+            }
+        }
+
+        @media (max-width: 768px) {
+            .col-lg-4, .col-md-6 { 
+                flex: 0 0 100%; 
+                max-width: 100%; 
+            }
+            .navbar-nav { 
+                display: none; 
+            }
+            .row {
+                margin: 0 -10px;
+            }
+            .col-md-6, .col-lg-4, .col-md-12 {
+                padding: 0 10px;
+            }
+            .metrics-grid {
+                grid-template-columns: 1fr;
+                gap: 10px;
+            }
+            .table-responsive {
+                font-size: 0.8rem;
+            }
+            .navbar-container {
+                padding: 0 10px;
+            }
+            .col-md-6, .col-lg-4, .col-md-12 {
+                padding: 0 10px;
+            }
+        }
+
+        /* Panel Styles */
+        .x_panel {
+            position: relative;
+            width: 100%;
+            margin-bottom: 16px;
+            display: flex;
+            flex-direction: column;
+            background: var(--md-surface);
+            border: 1px solid var(--md-outline-variant);
+            border-radius: 12px;
+            box-shadow: var(--md-shadow-elevation-2);
+            overflow: hidden;
+            height: 100%;
+            transition: box-shadow 0.2s ease-in-out, transform 0.2s ease-in-out;
+        }
+
+        .x_panel:hover {
+            box-shadow: var(--md-shadow-elevation-3);
+            transform: translateY(-2px);
+        }
+
+        .x_title {
+            border-bottom: 1px solid var(--md-outline-variant);
+            padding: 20px 24px;
+            margin-bottom: 0;
+            background: var(--md-surface);
+            cursor: pointer;
+            user-select: none;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            flex-shrink: 0;
+            font-weight: 500;
+            font-size: 16px;
+            color: rgba(0, 0, 0, 0.87);
+            transition: background-color 0.2s ease-in-out;
+        }
+
+        .x_title:hover {
+            background: var(--md-surface-variant);
+        }
+
+        .x_title h2 {
+            margin: 0;
+            font-size: 18px;
+            font-weight: 500;
+            color: #2d3748;
+            display: flex;
+            align-items: center;
+            gap: 8px;
+        }
+
+        .panel_toolbox {
+            list-style: none;
+            margin: 0;
+            padding: 0;
+        }
+
+        .collapse-link {
+            color: rgba(0, 0, 0, 0.54);
+            font-size: 16px;
+            text-decoration: none;
+            padding: 8px;
+            border-radius: 8px;
+            transition: all 0.2s ease-in-out;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            width: 32px;
+            height: 32px;
+        }
+
+        .collapse-link:hover {
+            background: var(--md-surface-variant);
+            color: var(--md-primary);
+            transform: scale(1.1);
+        }
+
+        .x_content {
+            padding: 25px 20px;
+            position: relative;
+            width: 100%;
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            justify-content: center;
+            transition: all 0.3s ease;
+            max-height: 2000px;
+            overflow: hidden;
+        }
+
+        .x_panel.collapsed .x_content {
+            max-height: 0;
+            padding: 0 20px;
+        }
+
+        .fixed_height_320 {
+            min-height: 320px;
+        }
+
+        .fixed_height_320 .x_content {
+            min-height: 220px;
+            display: flex;
+            align-items: stretch;
+            justify-content: center;
+            padding: 15px 20px;
+        }
+
+        /* Status Colors */
+        .passed-color { color: #1ABB9C !important; }
+        .failed-color { color: #E74C3C !important; }
+        .skipped-color { color: #3498DB !important; }
+        .pending-color { color: #FFD119 !important; }
+
+        .passed-background { background: #1ABB9C !important; }
+        .failed-background { background: #E74C3C !important; }
+        .skipped-background { background: #3498DB !important; }
+        .pending-background { background: #FFD119 !important; }
+
+        /* Chart Styles */
+        .chart-container-wrapper {
+            display: flex;
+            align-items: stretch;
+            gap: 20px;
+            height: auto;
+            min-height: 200px;
+            padding: 10px;
+            justify-content: flex-start;
+        }
+
+        .chart-visual {
+            position: relative;
+            width: 140px;
+            height: 140px;
+            flex-shrink: 0;
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            align-self: center;
+        }
+
+        .chart-visual canvas {
+            position: absolute;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            width: 140px !important;
+            height: 140px !important;
+            z-index: 1;
+        }
+
+        .chart-total {
+            position: absolute;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            font-size: 2em;
+            font-weight: 700;
+            color: #333;
+            pointer-events: none;
+            z-index: 100;
+            text-align: center;
+            line-height: 1;
+            font-family: 'Roboto', 'Arial', sans-serif;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+        }
+
+        body.darkmode .chart-total {
+            color: #b4bfca;
+        }
+
+        .chart-legend {
+            flex: 1;
+            min-width: 200px;
+            display: flex;
+            flex-direction: column;
+            justify-content: center;
+            gap: 4px;
+            align-self: center;
+        }
+
+        .legend-item {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 12px 14px;
+            border-bottom: 1px solid #efefef;
+            min-height: 44px;
+            background: #fafafa;
+            border-radius: 6px;
+            margin-bottom: 0;
+        }
+
+        .legend-item:last-child {
+            border-bottom: none;
+            margin-bottom: 0;
+        }
+
+        body.darkmode .legend-item {
+            border-bottom-color: #2e2e2e;
+            background: #2a2a2a;
+        }
+
+        .legend-label {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            font-size: 0.875rem;
+            font-weight: 500;
+            flex: 1;
+        }
+
+        .legend-label i {
+            width: 16px;
+            text-align: center;
+            font-size: 0.95rem;
+            flex-shrink: 0;
+        }
+
+        .legend-percentage {
+            font-weight: 700;
+            font-size: 0.875rem;
+            white-space: nowrap;
+            color: #4a5568;
+            min-width: 45px;
+            text-align: right;
+        }
+
+        body.darkmode .legend-percentage {
+            color: #b4bfca;
+        }
+
+        /* Metrics Grid */
+        .metrics-grid {
+            display: grid;
+            grid-template-columns: repeat(3, 1fr);
+            gap: 16px;
+            align-items: stretch;
+            margin: 20px 0;
+            padding: 0 10px;
+        }
+
+        .metric-card {
+            background: white;
+            padding: 20px 16px;
+            border-radius: 12px;
+            border-left: 4px solid #1ABB9C;
+            text-align: center;
+            box-shadow: var(--md-shadow-elevation-2);
+            display: flex;
+            flex-direction: column;
+            justify-content: center;
+            align-items: center;
+            min-height: 110px;
+            transition: transform 0.2s ease, box-shadow 0.2s ease;
+            position: relative;
+            overflow: hidden;
+        }
+
+        .metric-card:hover {
+            transform: translateY(-2px);
+            box-shadow: var(--md-shadow-elevation-3);
+        }
+
+        .metric-card.failed { border-left-color: var(--md-error); }
+        .metric-card.flaky { border-left-color: var(--md-warning); }
+        .metric-card.known { border-left-color: #9e9e9e; }
+        .metric-card.duration { border-left-color: var(--md-info); }
+
+        body.darkmode .metric-card {
+            background: #1c1c21;
+            border-color: #2e2e2e;
+            color: #b4bfca;
+        }
+
+        .metric-value {
+            font-size: 2.8rem;
+            font-weight: bold;
+            margin: 12px 0;
+            line-height: 1.1;
+        }
+
+        .metric-card.passed .metric-value { color: #1ABB9C; }
+        .metric-card.failed .metric-value { color: #E74C3C; }
+        .metric-card.flaky .metric-value { color: #ff9800; }
+        .metric-card.known .metric-value { color: #757575; }
+        .metric-card.duration .metric-value { color: #3498DB; }
+
+        .metric-label {
+            font-size: 0.9rem;
+            text-transform: uppercase;
+            letter-spacing: 1.2px;
+            color: #73879C;
+            margin-bottom: 10px;
+            font-weight: 600;
+        }
+
+        .metric-subtitle {
+            font-size: 0.85rem;
+            color: #999;
+            margin-top: 8px;
+            opacity: 0.9;
+        }
+
+        body.darkmode .metric-subtitle {
+            color: #999;
+        }
+
+        /* Run Info Styles */
+        .info-table {
+            width: 100%;
+            border-collapse: separate;
+            border-spacing: 0 3px;
+            margin: 0;
+        }
+
+        .info-table tr {
+            background: #fafafa;
+        }
+
+        .info-table td {
+            padding: 10px 14px;
+            font-size: 0.875rem;
+            vertical-align: middle;
+            line-height: 1.4;
+        }
+
+        .info-table td:first-child {
+            font-weight: 500;
+            width: 55%;
+            color: #4a5568;
+            border-radius: 6px 0 0 6px;
+        }
+
+        .info-table td:last-child {
+            color: #2d3748;
+            text-align: right;
+            font-weight: 600;
+            width: 45%;
+            border-radius: 0 6px 6px 0;
+        }
+
+        body.darkmode .info-table tr {
+            background: #2a2a2a;
+        }
+
+        body.darkmode .info-table td:first-child {
+            color: #a3c2db;
+        }
+
+        body.darkmode .info-table td:last-child {
+            color: #b4bfca;
+        }
+
+        /* Tables */
+        .table-responsive {
+            overflow-x: auto;
+            max-height: 600px;
+            overflow-y: auto;
+            border-radius: 8px;
+            border: 1px solid #E6E9ED;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.06);
+        }
+
+        .data-table {
+            width: 100%;
+            border-collapse: collapse;
+            background: white;
+            margin: 0;
+            min-width: 1000px; /* Increased for better column distribution */
+            table-layout: fixed; /* Fixed layout for consistent column widths */
+        }
+
+        .data-table th {
+            background: #F5F7FA;
+            padding: 15px 12px;
+            text-align: left;
+            font-weight: 600;
+            color: #4a5568;
+            border-bottom: 2px solid #E6E9ED;
+            position: sticky;
+            top: 0;
+            font-size: 0.9rem;
+            white-space: nowrap;
+            z-index: 10;
+            vertical-align: middle;
+        }
+
+        /* Define specific column widths */
+        .data-table th:nth-child(1) { width: 16%; } /* Test Name */
+        .data-table th:nth-child(2) { width: 8%; }  /* Status */
+        .data-table th:nth-child(3) { width: 9%; } /* Browser */
+        .data-table th:nth-child(4) { width: 12%; } /* Spec File */
+        .data-table th:nth-child(5) { width: 7%; }  /* Duration */
+        .data-table th:nth-child(6) { width: 6%; }  /* Retry */
+        .data-table th:nth-child(7) { width: 8%; }  /* Severity */
+        .data-table th:nth-child(8) { width: 10%; } /* Feature */
+        .data-table th:nth-child(9) { width: 10%; } /* Attachments */
+        .data-table th:nth-child(10) { width: 14%; } /* Error */
+
+        .data-table td {
+            padding: 12px 10px;
+            border-bottom: 1px solid #E6E9ED;
+            font-size: 0.85rem;
+            vertical-align: middle;
+            line-height: 1.4;
+            overflow: hidden;
+        }
+
+        /* Test name column styling */
+        .data-table td:nth-child(1) {
+            font-weight: 600;
+            word-wrap: break-word;
+            word-break: break-word;
+            white-space: normal;
+        }
+
+        /* Status column styling */
+        .data-table td:nth-child(2) {
+            text-align: center;
+            padding: 12px 8px;
+        }
+
+        /* Browser, Duration, Severity, Feature columns */
+        .data-table td:nth-child(3),
+        .data-table td:nth-child(5),
+        .data-table td:nth-child(6),
+        .data-table td:nth-child(7) {
+            text-align: center;
+        }
+
+        /* Icon alignment in table cells */
+        .data-table td i {
+            margin-right: 6px;
+            width: 14px;
+            text-align: center;
+            display: inline-block;
+        }
+
+        /* Error message column styling */
+        .data-table td:nth-child(10) {
+            word-wrap: break-word;
+            word-break: break-word;
+            white-space: normal;
+            font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+            font-size: 0.75rem;
+            background: rgba(231, 76, 60, 0.05);
+            color: #e74c3c;
+            border-left: 2px solid #e74c3c;
+            padding-left: 12px;
+            vertical-align: top;
+        }
+
+        body.darkmode .data-table td:nth-child(10) {
+            background: rgba(231, 76, 60, 0.1);
+            color: #ff6b6b;
+            border-left-color: #ff6b6b;
+        }
+
+        /* Spec file column styling */
+        .data-table td:nth-child(4) {
+            font-family: 'Courier New', monospace;
+            font-size: 0.8rem;
+            color: #5A738E;
+            max-width: 200px;
+            word-wrap: break-word;
+            word-break: break-all;
+            text-align: left;
+        }
+
+        body.darkmode .data-table td:nth-child(4) {
+            color: #a3c2db;
+        }
+
+        .data-table tr:hover {
+            background: #f8f9fa;
+        }
+
+        .data-table tr:nth-child(even) {
+            background: #fafbfc;
+        }
+
+        body.darkmode .data-table {
+            background: #1c1c21;
+            color: #b4bfca;
+        }
+
+        body.darkmode .data-table th {
+            background: #212121;
+            color: #a3c2db;
+            border-color: #2e2e2e;
+        }
+
+        body.darkmode .data-table td {
+            border-color: #2e2e2e;
+        }
+
+        body.darkmode .data-table tr:nth-child(even) {
+            background: #212121;
+        }
+
+        body.darkmode .data-table tr:hover {
+            background: #2a2a2f;
+        }
+
+        body.darkmode .table-responsive {
+            border-color: #2e2e2e;
+        }
+
+        /* Status Badges */
+        .status-badge {
+            padding: 4px 8px;
+            border-radius: 12px;
+            font-size: 0.7rem;
+            font-weight: 600;
+            text-transform: uppercase;
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+            gap: 3px;
+            min-width: 70px;
+            white-space: nowrap;
+        }
+
+        .status-passed {
+            background: rgba(76, 175, 80, 0.12);
+            color: var(--md-success);
+            border: 1px solid rgba(76, 175, 80, 0.3);
+        }
+
+        .status-failed {
+            background: rgba(244, 67, 54, 0.12);
+            color: var(--md-error);
+            border: 1px solid rgba(244, 67, 54, 0.3);
+        }
+
+        .status-skipped {
+            background: rgba(33, 150, 243, 0.12);
+            color: var(--md-info);
+            border: 1px solid rgba(33, 150, 243, 0.3);
+        }
+
+        .status-flaky,
+        .status-timedOut,
+        .status-interrupted {
+            background: rgba(255, 152, 0, 0.12);
+            color: #ff9800;
+            border: 1px solid rgba(255, 152, 0, 0.3);
+        }
+
+        /* Retry Badge */
+        .retry-badge {
+            background: rgba(255, 193, 7, 0.1);
+            color: #ff9800;
+            padding: 4px 8px;
+            border-radius: 4px;
+            font-size: 0.85em;
+            border: 1px solid rgba(255, 193, 7, 0.3);
+        }
+
+        .retry-badge-large {
+            background: rgba(255, 193, 7, 0.15);
+            color: #ff9800;
+            padding: 6px 12px;
+            border-radius: 6px;
+            font-size: 0.9em;
+            border: 1px solid rgba(255, 193, 7, 0.4);
+            font-weight: 600;
+            display: inline-flex;
+            align-items: center;
+            gap: 6px;
+        }
+
+        /* Filters Section */
+        .filters-container {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+            margin-bottom: 20px;
+            padding: 20px;
+            background: var(--md-surface-variant);
+            border-radius: 12px;
+            border: 1px solid var(--md-outline-variant);
+            align-items: flex-end;
+        }
+
+        .filter-group {
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            min-width: 180px;
+            flex: 1;
+        }
+
+        .filter-group label {
+            font-size: 0.85rem;
+            font-weight: 500;
+            color: rgba(0, 0, 0, 0.7);
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+
+        .filter-input,
+        .filter-select {
+            padding: 10px 14px;
+            border: 1px solid var(--md-outline);
+            border-radius: 8px;
+            font-size: 0.95rem;
+            background: var(--md-surface);
+            color: rgba(0, 0, 0, 0.87);
+            transition: all 0.2s ease;
+        }
+
+        .filter-input:focus,
+        .filter-select:focus {
+            outline: none;
+            border-color: var(--md-primary);
+            box-shadow: 0 0 0 3px rgba(25, 118, 210, 0.1);
+        }
+
+        .clear-filters-btn {
+            padding: 10px 20px;
+            background: var(--md-error);
+            color: white;
+            border: none;
+            border-radius: 8px;
+            cursor: pointer;
+            font-size: 0.95rem;
+            font-weight: 500;
+            transition: all 0.2s ease;
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            white-space: nowrap;
+        }
+
+        .clear-filters-btn:hover {
+            background: #d32f2f;
+            transform: translateY(-1px);
+            box-shadow: var(--md-shadow-elevation-2);
+        }
+
+        .results-summary {
+            margin-bottom: 15px;
+            padding: 12px 16px;
+            background: var(--md-primary);
+            color: white;
+            border-radius: 8px;
+            font-weight: 500;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 10px;
+        }
+
+        .results-summary span {
+            font-weight: 700;
+            font-size: 1.1em;
+        }
+
+        .export-buttons {
+            display: flex;
+            gap: 8px;
+        }
+
+        .export-btn {
+            padding: 6px 14px;
+            background: rgba(255, 255, 255, 0.2);
+            color: white;
+            border: 1px solid rgba(255, 255, 255, 0.3);
+            border-radius: 6px;
+            cursor: pointer;
+            font-size: 0.85rem;
+            font-weight: 500;
+            transition: all 0.2s ease;
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+
+        .export-btn:hover {
+            background: rgba(255, 255, 255, 0.3);
+            border-color: rgba(255, 255, 255, 0.5);
+            transform: translateY(-1px);
+        }
+
+        .export-btn i {
+            font-size: 1rem;
+        }
+
+        /* Pagination Controls */
+        .pagination-controls {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 15px;
+            padding: 15px 20px;
+            background: var(--md-surface-variant);
+            border-radius: 8px;
+            border: 1px solid var(--md-outline-variant);
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+
+        .pagination-info {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+        }
+
+        .pagination-info label {
+            font-size: 0.9rem;
+            font-weight: 500;
+            color: rgba(0, 0, 0, 0.7);
+        }
+
+        .page-size-select {
+            padding: 8px 12px;
+            border: 1px solid var(--md-outline);
+            border-radius: 6px;
+            background: var(--md-surface);
             color: rgba(0, 0, 0, 0.87);
-            background: var(--md-background);
-            font-family: 'Roboto', 'Helvetica', 'Arial', sans-serif;
-            font-size: 14px;
-            font-weight: 400;
-            line-height: 1.5;
-            -webkit-font-smoothing: antialiased;
-            -moz-osx-font-smoothing: grayscale;
+            font-size: 0.9rem;
+            cursor: pointer;
+            transition: all 0.2s ease;
         }
 
-        /* Dark Mode Styles */
-        body.darkmode {
-            --md-primary: #90caf9;
-            --md-primary-dark: #42a5f5;
-            --md-primary-light: #bbdefb;
-            --md-secondary: #f48fb1;
-            --md-success: #81c784;
-            --md-error: #ef5350;
-            --md-warning: #ffb74d;
-            --md-info: #64b5f6;
-            --md-surface: #121212;
-            --md-background: #0a0a0a;
-            --md-surface-variant: #1e1e1e;
-            --md-outline: #333333;
-            --md-outline-variant: #2a2a2a;
-            background: var(--md-background) !important;
-            color: rgba(255, 255, 255, 0.87);
+        .page-size-select:focus {
+            outline: none;
+            border-color: var(--md-primary);
+            box-shadow: 0 0 0 3px rgba(25, 118, 210, 0.1);
         }
 
-        body.darkmode .x_panel {
-            background: var(--md-surface) !important;
-            color: rgba(255, 255, 255, 0.87);
+        .pagination-buttons {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+        }
+
+        .pagination-btn {
+            padding: 8px 12px;
+            background: var(--md-surface);
             border: 1px solid var(--md-outline);
-            box-shadow: var(--md-shadow-elevation-2);
+            border-radius: 6px;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            color: rgba(0, 0, 0, 0.7);
+            font-size: 1rem;
         }
 
-        body.darkmode .x_title {
-            background: var(--md-surface) !important;
-            border-bottom: 2px solid var(--md-outline);
-            color: rgba(255, 255, 255, 0.87);
+        .pagination-btn:hover:not(:disabled) {
+            background: var(--md-primary);
+            color: white;
+            border-color: var(--md-primary);
+            transform: translateY(-1px);
+            box-shadow: var(--md-shadow-elevation-1);
         }
 
-        body.darkmode nav.navbar {
+        .pagination-btn:disabled {
+            opacity: 0.4;
+            cursor: not-allowed;
+        }
+
+        .page-indicator {
+            padding: 0 10px;
+            font-size: 0.9rem;
+            font-weight: 500;
+            color: rgba(0, 0, 0, 0.7);
+            white-space: nowrap;
+        }
+
+        .page-indicator span {
+            font-weight: 700;
+            color: var(--md-primary);
+        }
+
+        body.darkmode .pagination-controls {
+            background: var(--md-surface);
+            border-color: var(--md-outline);
+        }
+
+        body.darkmode .pagination-info label,
+        body.darkmode .page-indicator {
+            color: rgba(255, 255, 255, 0.7);
+        }
+
+        body.darkmode .page-size-select,
+        body.darkmode .pagination-btn {
             background: var(--md-surface-variant);
-            border-bottom: 1px solid var(--md-outline);
-            box-shadow: var(--md-shadow-elevation-1);
+            color: rgba(255, 255, 255, 0.87);
+            border-color: var(--md-outline);
         }
 
-        /* Navigation */
-        nav.navbar {
+        body.darkmode .page-indicator span {
+            color: var(--md-primary-light);
+        }
+
+        body.darkmode .filters-container {
             background: var(--md-surface);
-            border-bottom: 1px solid var(--md-outline-variant);
-            margin-bottom: 0;
-            padding: 16px 24px;
-            position: sticky;
-            top: 0;
-            z-index: 1000;
-            box-shadow: var(--md-shadow-elevation-1);
-            backdrop-filter: blur(8px);
+            border-color: var(--md-outline);
         }
 
-        .navbar-container {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            max-width: 1200px;
-            margin: 0 auto;
+        body.darkmode .filter-group label {
+            color: rgba(255, 255, 255, 0.7);
         }
 
-        .navbar-brand {
-            font-size: 20px;
+        body.darkmode .filter-input,
+        body.darkmode .filter-select {
+            background: var(--md-surface-variant);
+            color: rgba(255, 255, 255, 0.87);
+            border-color: var(--md-outline);
+        }
+
+        /* Trends Section */
+        .trend-chart-container {
+            background: var(--md-surface);
+            padding: 20px;
+            border-radius: 12px;
+            border: 1px solid var(--md-outline-variant);
+            box-shadow: var(--md-shadow-elevation-1);
+            height: 100%;
+        }
+
+        .trend-chart-container h3 {
+            margin: 0 0 20px 0;
+            font-size: 1.1rem;
             font-weight: 500;
             color: var(--md-primary);
-            text-decoration: none;
-            transition: color 0.2s ease-in-out;
+            text-align: center;
         }
 
-        .navbar-brand:hover {
-            color: var(--md-primary-dark);
+        .trend-chart-container canvas {
+            width: 100% !important;
+            height: 250px !important;
         }
 
-        .navbar-nav {
-            display: flex;
-            gap: 8px;
-            list-style: none;
+        body.darkmode .trend-chart-container {
+            background: var(--md-surface-variant);
+            border-color: var(--md-outline);
         }
 
-        .nav-link {
-            color: rgba(0, 0, 0, 0.6);
-            text-decoration: none;
-            padding: 12px 16px;
+        body.darkmode .trend-chart-container h3 {
+            color: var(--md-primary-light);
+        }
+
+        /* Flaky Tests Section */
+        .flaky-warning {
+            background: linear-gradient(135deg, rgba(255, 193, 7, 0.1), rgba(255, 152, 0, 0.05));
+            border-left: 4px solid #ff9800;
+            padding: 16px 20px;
+            margin-bottom: 20px;
             border-radius: 8px;
-            transition: all 0.2s ease-in-out;
-            font-weight: 500;
-            font-size: 14px;
+            font-size: 1rem;
         }
 
-        .nav-link:hover, .nav-link.active {
-            background: var(--md-primary);
-            color: white;
-            transform: translateY(-1px);
-            box-shadow: var(--md-shadow-elevation-2);
+        .flaky-warning strong {
+            color: #ff9800;
         }
 
-        .darkmode-toggle {
-            background: none;
-            border: 1px solid var(--md-outline);
-            font-size: 16px;
-            color: rgba(0, 0, 0, 0.6);
-            cursor: pointer;
-            padding: 10px 12px;
-            border-radius: 8px;
-            transition: all 0.2s ease-in-out;
-            margin-left: 12px;
+        .flaky-table {
+            border: 2px solid rgba(255, 193, 7, 0.3);
         }
 
-        .darkmode-toggle:hover {
-            background: var(--md-surface-variant);
-            border-color: var(--md-primary);
-            color: var(--md-primary);
-            transform: translateY(-1px);
+        .flaky-row {
+            background: rgba(255, 193, 7, 0.03);
         }
 
-        body.darkmode .darkmode-toggle {
-            color: #b4bfca;
+        .flaky-row:hover {
+            background: rgba(255, 193, 7, 0.08) !important;
         }
 
-        body.darkmode .darkmode-toggle:hover {
-            background: #313a45;
+        body.darkmode .flaky-warning {
+            background: linear-gradient(135deg, rgba(255, 193, 7, 0.15), rgba(255, 152, 0, 0.08));
+            border-left-color: #ffb74d;
         }
 
-        /* Container */
-        /* Main Container */
-        .main_container {
-            padding: 20px;
-            max-width: 1400px;
-            margin: 0 auto;
-            min-height: calc(100vh - 60px);
+        body.darkmode .flaky-warning strong {
+            color: #ffb74d;
         }
 
-        .row {
+        /* Attachments */
+        .attachments-container {
             display: flex;
+            gap: 6px;
+            justify-content: center;
             flex-wrap: wrap;
-            margin: 0 -15px;
-            align-items: stretch;
-            margin-bottom: 20px;
         }
 
-        .col-md-6, .col-lg-4, .col-md-12 {
-            padding: 0 15px;
-            margin-bottom: 20px;
-            display: flex;
-            flex-direction: column;
+        .attachment-btn {
+            background: var(--md-primary);
+            color: white;
+            border: none;
+            padding: 8px 12px;
+            border-radius: 6px;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            font-size: 14px;
         }
 
-        .col-lg-4 { 
-            flex: 0 0 33.333%; 
-            max-width: 33.333%; 
-        }
-        .col-md-6 { 
-            flex: 0 0 50%; 
-            max-width: 50%; 
+        .attachment-btn:hover {
+            background: var(--md-primary-dark);
+            transform: translateY(-2px);
+            box-shadow: var(--md-shadow-elevation-2);
         }
-        .col-md-12 { 
-            flex: 0 0 100%; 
-            max-width: 100%; 
+
+        .no-attachments {
+            color: #999;
+            font-style: italic;
         }
 
-        /* Responsive Design Fixes */
-        @media (max-width: 1200px) {
-            .main_container {
-                max-width: 100%;
-                padding: 15px;
-            }
+        /* Expandable Test Details */
+        .expand-btn {
+            background: none;
+            border: none;
+            cursor: pointer;
+            color: var(--md-primary);
+            padding: 0 4px 0 0;
         }
 
-        @media (max-width: 992px) {
-            .col-lg-4 { 
-                flex: 0 0 50%; 
-                max-width: 50%; 
-            }
-            .metrics-grid {
-                grid-template-columns: repeat(2, 1fr);
-                gap: 15px;
-            }
+        .expand-btn i {
+            transition: transform 0.2s ease;
         }
 
-        @media (max-width: 768px) {
-            .col-lg-4, .col-md-6 { 
-                flex: 0 0 100%; 
-                max-width: 100%; 
-            }
-            .navbar-nav { 
-                display: none; 
-            }
-            .row {
-                margin: 0 -10px;
-            }
-            .col-md-6, .col-lg-4, .col-md-12 {
-                padding: 0 10px;
-            }
-            .metrics-grid {
-                grid-template-columns: 1fr;
-                gap: 10px;
-            }
-            .table-responsive {
-                font-size: 0.8rem;
-            }
-            .navbar-container {
-                padding: 0 10px;
-            }
-            .col-md-6, .col-lg-4, .col-md-12 {
-                padding: 0 10px;
-            }
+        .test-row.expanded .expand-btn i {
+            transform: rotate(90deg);
         }
 
-        /* Panel Styles */
-        .x_panel {
-            position: relative;
-            width: 100%;
-            margin-bottom: 16px;
-            display: flex;
-            flex-direction: column;
-            background: var(--md-surface);
-            border: 1px solid var(--md-outline-variant);
-            border-radius: 12px;
-            box-shadow: var(--md-shadow-elevation-2);
-            overflow: hidden;
-            height: 100%;
-            transition: box-shadow 0.2s ease-in-out, transform 0.2s ease-in-out;
+        .data-table .test-details-row td {
+            font-weight: normal;
+            font-family: inherit;
+            font-size: 0.85rem;
+            text-align: left;
+            color: inherit;
+            background: #F5F7FA;
+            border-left: none;
+            padding: 16px 20px;
         }
 
-        .x_panel:hover {
-            box-shadow: var(--md-shadow-elevation-3);
-            transform: translateY(-2px);
+        body.darkmode .data-table .test-details-row td {
+            background: #17171b;
+            color: inherit;
         }
 
-        .x_title {
-            border-bottom: 1px solid var(--md-outline-variant);
-            padding: 20px 24px;
-            margin-bottom: 0;
-            background: var(--md-surface);
-            cursor: pointer;
-            user-select: none;
+        .details-tabs {
             display: flex;
-            justify-content: space-between;
-            align-items: center;
-            flex-shrink: 0;
-            font-weight: 500;
-            font-size: 16px;
-            color: rgba(0, 0, 0, 0.87);
-            transition: background-color 0.2s ease-in-out;
+            gap: 4px;
+            border-bottom: 1px solid #E6E9ED;
+            margin-bottom: 12px;
         }
 
-        .x_title:hover {
-            background: var(--md-surface-variant);
+        .details-tab {
+            background: none;
+            border: none;
+            border-bottom: 2px solid transparent;
+            padding: 8px 14px;
+            cursor: pointer;
+            font-size: 0.85rem;
+            color: #73879C;
         }
 
-        .x_title h2 {
-            margin: 0;
-            font-size: 18px;
-            font-weight: 500;
-            color: #2d3748;
-            display: flex;
-            align-items: center;
-            gap: 8px;
+        .details-tab.active {
+            color: var(--md-primary);
+            border-bottom-color: var(--md-primary);
+            font-weight: 600;
         }
 
-        .panel_toolbox {
-            list-style: none;
-            margin: 0;
-            padding: 0;
+        body.darkmode .details-tabs {
+            border-color: #2e2e2e;
         }
 
-        .collapse-link {
-            color: rgba(0, 0, 0, 0.54);
-            font-size: 16px;
-            text-decoration: none;
-            padding: 8px;
-            border-radius: 8px;
-            transition: all 0.2s ease-in-out;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            width: 32px;
-            height: 32px;
+        .details-tab-panel {
+            display: none;
         }
 
-        .collapse-link:hover {
-            background: var(--md-surface-variant);
-            color: var(--md-primary);
-            transform: scale(1.1);
+        .details-tab-panel.active {
+            display: block;
         }
 
-        .x_content {
-            padding: 25px 20px;
+        /* Worker Timeline */
+        .worker-timeline {
             position: relative;
-            width: 100%;
-            flex: 1;
-            display: flex;
-            flex-direction: column;
-            justify-content: center;
-            transition: all 0.3s ease;
-            max-height: 2000px;
-            overflow: hidden;
+            padding-left: 110px;
         }
 
-        .x_panel.collapsed .x_content {
-            max-height: 0;
-            padding: 0 20px;
+        .timeline-axis {
+            position: relative;
+            height: 20px;
+            border-bottom: 1px solid #E6E9ED;
+            margin-bottom: 6px;
         }
 
-        .fixed_height_320 {
-            min-height: 320px;
+        .timeline-tick {
+            position: absolute;
+            transform: translateX(-50%);
+            font-size: 0.7rem;
+            color: #73879C;
         }
 
-        .fixed_height_320 .x_content {
-            min-height: 220px;
-            display: flex;
-            align-items: stretch;
-            justify-content: center;
-            padding: 15px 20px;
+        .timeline-tick:first-child {
+            transform: none;
         }
 
-        /* Status Colors */
-        .passed-color { color: #1ABB9C !important; }
-        .failed-color { color: #E74C3C !important; }
-        .skipped-color { color: #3498DB !important; }
-        .pending-color { color: #FFD119 !important; }
-
-        .passed-background { background: #1ABB9C !important; }
-        .failed-background { background: #E74C3C !important; }
-        .skipped-background { background: #3498DB !important; }
-        .pending-background { background: #FFD119 !important; }
-
-        /* Chart Styles */
-        .chart-container-wrapper {
-            display: flex;
-            align-items: stretch;
-            gap: 20px;
-            height: auto;
-            min-height: 200px;
-            padding: 10px;
-            justify-content: flex-start;
+        .timeline-tick:last-child {
+            transform: translateX(-100%);
         }
 
-        .chart-visual {
+        .timeline-lane {
             position: relative;
-            width: 140px;
-            height: 140px;
-            flex-shrink: 0;
-            display: flex;
-            justify-content: center;
-            align-items: center;
-            align-self: center;
+            height: 24px;
+            margin-bottom: 4px;
         }
 
-        .chart-visual canvas {
+        .timeline-lane-label {
             position: absolute;
-            top: 50%;
-            left: 50%;
-            transform: translate(-50%, -50%);
-            width: 140px !important;
-            height: 140px !important;
-            z-index: 1;
+            left: -110px;
+            width: 100px;
+            font-size: 0.75rem;
+            line-height: 24px;
+            color: #4a5568;
+            white-space: nowrap;
         }
 
-        .chart-total {
-            position: absolute;
-            top: 50%;
-            left: 50%;
-            transform: translate(-50%, -50%);
-            font-size: 2em;
-            font-weight: 700;
-            color: #333;
-            pointer-events: none;
-            z-index: 100;
-            text-align: center;
-            line-height: 1;
-            font-family: 'Roboto', 'Arial', sans-serif;
-            display: flex;
-            align-items: center;
-            justify-content: center;
+        body.darkmode .timeline-lane-label {
+            color: #a3c2db;
         }
 
-        body.darkmode .chart-total {
-            color: #b4bfca;
+        .timeline-lane-usage {
+            color: #73879C;
+            margin-left: 4px;
         }
 
-        .chart-legend {
-            flex: 1;
-            min-width: 200px;
-            display: flex;
-            flex-direction: column;
-            justify-content: center;
-            gap: 4px;
-            align-self: center;
+        .timeline-lane-track {
+            position: relative;
+            height: 100%;
+            background: #F5F7FA;
+            border-radius: 4px;
         }
 
-        .legend-item {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            padding: 12px 14px;
-            border-bottom: 1px solid #efefef;
-            min-height: 44px;
-            background: #fafafa;
-            border-radius: 6px;
-            margin-bottom: 0;
+        body.darkmode .timeline-lane-track {
+            background: #212121;
+        }
+
+        .timeline-bar {
+            position: absolute;
+            top: 2px;
+            bottom: 2px;
+            border-radius: 2px;
+            background: var(--md-info);
+            border-right: 1px solid rgba(255, 255, 255, 0.6);
+            cursor: default;
         }
 
-        .legend-item:last-child {
-            border-bottom: none;
-            margin-bottom: 0;
+        .timeline-bar:hover {
+            filter: brightness(1.15);
+            z-index: 1;
+        }
+
+        .timeline-passed { background: var(--md-success); }
+        .timeline-failed { background: var(--md-error); }
+        .timeline-timedOut,
+        .timeline-interrupted { background: var(--md-warning); }
+        .timeline-skipped { background: var(--md-info); }
+
+        .timeline-legend {
+            display: flex;
+            gap: 18px;
+            margin-top: 12px;
+            font-size: 0.8rem;
+            color: #73879C;
         }
 
-        body.darkmode .legend-item {
-            border-bottom-color: #2e2e2e;
-            background: #2a2a2a;
+        .timeline-swatch {
+            display: inline-block;
+            width: 12px;
+            height: 12px;
+            border-radius: 2px;
+            vertical-align: middle;
         }
 
-        .legend-label {
+        /* Run Status Banner */
+        .run-status-banner {
             display: flex;
             align-items: center;
-            gap: 10px;
-            font-size: 0.875rem;
-            font-weight: 500;
-            flex: 1;
+            gap: 14px;
+            background: rgba(255, 152, 0, 0.1);
+            border: 1px solid rgba(255, 152, 0, 0.4);
+            border-left: 6px solid var(--md-warning);
+            border-radius: 8px;
+            padding: 14px 20px;
+            margin-bottom: 20px;
         }
 
-        .legend-label i {
-            width: 16px;
-            text-align: center;
-            font-size: 0.95rem;
-            flex-shrink: 0;
+        .run-status-banner i {
+            color: var(--md-warning);
+            font-size: 1.4rem;
         }
 
-        .legend-percentage {
-            font-weight: 700;
-            font-size: 0.875rem;
-            white-space: nowrap;
-            color: #4a5568;
-            min-width: 45px;
-            text-align: right;
+        .run-status-banner strong {
+            color: var(--md-warning);
         }
 
-        body.darkmode .legend-percentage {
-            color: #b4bfca;
+        /* Run Errors Banner */
+        .run-errors-banner {
+            background: rgba(244, 67, 54, 0.08);
+            border: 1px solid rgba(244, 67, 54, 0.4);
+            border-left: 6px solid var(--md-error);
+            border-radius: 8px;
+            padding: 16px 20px;
+            margin-bottom: 20px;
         }
 
-        /* Metrics Grid */
-        .metrics-grid {
-            display: grid;
-            grid-template-columns: repeat(4, 1fr);
-            gap: 16px;
-            align-items: stretch;
-            margin: 20px 0;
-            padding: 0 10px;
+        .run-errors-title {
+            color: var(--md-error);
+            font-weight: 700;
+            font-size: 1.05rem;
+            margin-bottom: 10px;
         }
 
-        .metric-card {
-            background: white;
-            padding: 20px 16px;
-            border-radius: 12px;
-            border-left: 4px solid #1ABB9C;
-            text-align: center;
-            box-shadow: var(--md-shadow-elevation-2);
-            display: flex;
-            flex-direction: column;
-            justify-content: center;
-            align-items: center;
-            min-height: 110px;
-            transition: transform 0.2s ease, box-shadow 0.2s ease;
-            position: relative;
-            overflow: hidden;
+        .run-error {
+            padding: 10px 0;
+            border-top: 1px solid rgba(244, 67, 54, 0.2);
         }
 
-        .metric-card:hover {
-            transform: translateY(-2px);
-            box-shadow: var(--md-shadow-elevation-3);
+        .run-error-message {
+            font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+            font-size: 0.85rem;
+            white-space: pre-wrap;
+            word-break: break-word;
         }
 
-        .metric-card.failed { border-left-color: var(--md-error); }
-        .metric-card.flaky { border-left-color: var(--md-warning); }
-        .metric-card.duration { border-left-color: var(--md-info); }
+        .run-error-location {
+            color: #73879C;
+            font-size: 0.8rem;
+            margin-top: 4px;
+        }
 
-        body.darkmode .metric-card {
-            background: #1c1c21;
-            border-color: #2e2e2e;
-            color: #b4bfca;
+        .run-error details summary {
+            cursor: pointer;
+            font-size: 0.8rem;
+            color: #73879C;
+            margin: 6px 0;
         }
 
-        .metric-value {
-            font-size: 2.8rem;
-            font-weight: bold;
-            margin: 12px 0;
-            line-height: 1.1;
+        body.darkmode .run-errors-banner {
+            background: rgba(244, 67, 54, 0.12);
         }
 
-        .metric-card.passed .metric-value { color: #1ABB9C; }
-        .metric-card.failed .metric-value { color: #E74C3C; }
-        .metric-card.flaky .metric-value { color: #ff9800; }
-        .metric-card.duration .metric-value { color: #3498DB; }
+        /* Console Output */
+        .console-indicator {
+            display: inline-block;
+            width: 6px;
+            height: 6px;
+            border-radius: 50%;
+            background: var(--md-primary);
+            vertical-align: middle;
+        }
 
-        .metric-label {
-            font-size: 0.9rem;
-            text-transform: uppercase;
-            letter-spacing: 1.2px;
-            color: #73879C;
-            margin-bottom: 10px;
-            font-weight: 600;
+        .console-stream {
+            margin-bottom: 12px;
         }
 
-        .metric-subtitle {
-            font-size: 0.85rem;
-            color: #999;
-            margin-top: 8px;
-            opacity: 0.9;
+        .console-stream-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            font-size: 0.8rem;
+            font-weight: 600;
+            color: #73879C;
+            margin-bottom: 4px;
         }
 
-        body.darkmode .metric-subtitle {
-            color: #999;
+        .console-stderr .console-stream-header {
+            color: var(--md-error);
         }
 
-        /* Run Info Styles */
-        .info-table {
-            width: 100%;
-            border-collapse: separate;
-            border-spacing: 0 3px;
-            margin: 0;
+        .console-truncated {
+            font-weight: normal;
+            font-style: italic;
         }
 
-        .info-table tr {
-            background: #fafafa;
+        .console-truncated a {
+            margin-left: 8px;
+            color: var(--md-primary);
+            font-style: normal;
         }
 
-        .info-table td {
-            padding: 10px 14px;
-            font-size: 0.875rem;
-            vertical-align: middle;
-            line-height: 1.4;
+        .console-output {
+            background: #1e1e1e;
+            color: #d4d4d4;
+            font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+            font-size: 0.75rem;
+            line-height: 1.5;
+            padding: 10px 12px;
+            border-radius: 6px;
+            max-height: 400px;
+            overflow: auto;
+            white-space: pre-wrap;
+            word-break: break-word;
+            margin: 0;
         }
 
-        .info-table td:first-child {
-            font-weight: 500;
-            width: 55%;
+        /* Step Tree */
+        .steps-attempt-title {
+            margin: 12px 0 8px 0;
+            font-size: 0.9rem;
             color: #4a5568;
-            border-radius: 6px 0 0 6px;
         }
 
-        .info-table td:last-child {
-            color: #2d3748;
-            text-align: right;
-            font-weight: 600;
-            width: 45%;
-            border-radius: 0 6px 6px 0;
+        body.darkmode .steps-attempt-title {
+            color: #a3c2db;
         }
 
-        body.darkmode .info-table tr {
-            background: #2a2a2a;
+        .step-tree {
+            font-size: 0.8rem;
         }
 
-        body.darkmode .info-table td:first-child {
-            color: #a3c2db;
+        .test-title-path {
+            font-size: 0.75rem;
+            color: #73879C;
+            margin-top: 2px;
         }
 
-        body.darkmode .info-table td:last-child {
-            color: #b4bfca;
+        .tag-chips {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-top: 4px;
         }
 
-        /* Tables */
-        .table-responsive {
-            overflow-x: auto;
-            max-height: 600px;
-            overflow-y: auto;
-            border-radius: 8px;
-            border: 1px solid #E6E9ED;
-            box-shadow: 0 2px 8px rgba(0,0,0,0.06);
+        .tag-chip {
+            padding: 1px 8px;
+            border-radius: 10px;
+            font-size: 0.7rem;
+            font-weight: 500;
+            background: rgba(25, 118, 210, 0.1);
+            color: var(--md-primary);
         }
 
-        .data-table {
-            width: 100%;
-            border-collapse: collapse;
-            background: white;
-            margin: 0;
-            min-width: 1000px; /* Increased for better column distribution */
-            table-layout: fixed; /* Fixed layout for consistent column widths */
+        .test-links {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            margin-top: 4px;
         }
 
-        .data-table th {
-            background: #F5F7FA;
-            padding: 15px 12px;
-            text-align: left;
-            font-weight: 600;
-            color: #4a5568;
-            border-bottom: 2px solid #E6E9ED;
-            position: sticky;
-            top: 0;
-            font-size: 0.9rem;
+        .test-link {
+            font-size: 0.75rem;
+            color: var(--md-primary);
+            text-decoration: none;
             white-space: nowrap;
-            z-index: 10;
-            vertical-align: middle;
         }
 
-        /* Define specific column widths */
-        .data-table th:nth-child(1) { width: 16%; } /* Test Name */
-        .data-table th:nth-child(2) { width: 8%; }  /* Status */
-        .data-table th:nth-child(3) { width: 9%; } /* Browser */
-        .data-table th:nth-child(4) { width: 12%; } /* Spec File */
-        .data-table th:nth-child(5) { width: 7%; }  /* Duration */
-        .data-table th:nth-child(6) { width: 6%; }  /* Retry */
-        .data-table th:nth-child(7) { width: 8%; }  /* Severity */
-        .data-table th:nth-child(8) { width: 10%; } /* Feature */
-        .data-table th:nth-child(9) { width: 10%; } /* Attachments */
-        .data-table th:nth-child(10) { width: 14%; } /* Error */
-
-        .data-table td {
-            padding: 12px 10px;
-            border-bottom: 1px solid #E6E9ED;
-            font-size: 0.85rem;
-            vertical-align: middle;
-            line-height: 1.4;
-            overflow: hidden;
+        a.test-link:hover {
+            text-decoration: underline;
         }
 
-        /* Test name column styling */
-        .data-table td:nth-child(1) {
-            font-weight: 600;
-            word-wrap: break-word;
-            word-break: break-word;
-            white-space: normal;
+        .test-link-issue i {
+            color: var(--md-error);
         }
 
-        /* Status column styling */
-        .data-table td:nth-child(2) {
-            text-align: center;
-            padding: 12px 8px;
+        .test-owners {
+            font-size: 0.75rem;
+            color: #73879C;
+            margin-top: 4px;
         }
 
-        /* Browser, Duration, Severity, Feature columns */
-        .data-table td:nth-child(3),
-        .data-table td:nth-child(5),
-        .data-table td:nth-child(6),
-        .data-table td:nth-child(7) {
-            text-align: center;
+        .owners-table tr.owner-failing td:first-child {
+            border-left: 3px solid var(--md-error);
         }
 
-        /* Icon alignment in table cells */
-        .data-table td i {
-            margin-right: 6px;
-            width: 14px;
-            text-align: center;
-            display: inline-block;
+        .changes-summary {
+            color: #73879C;
+            margin-bottom: 12px;
         }
 
-        /* Error message column styling */
-        .data-table td:nth-child(10) {
-            word-wrap: break-word;
-            word-break: break-word;
-            white-space: normal;
-            font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
-            font-size: 0.75rem;
-            background: rgba(231, 76, 60, 0.05);
-            color: #e74c3c;
-            border-left: 2px solid #e74c3c;
-            padding-left: 12px;
-            vertical-align: top;
+        .change-counts {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            margin-bottom: 12px;
         }
 
-        body.darkmode .data-table td:nth-child(10) {
-            background: rgba(231, 76, 60, 0.1);
-            color: #ff6b6b;
-            border-left-color: #ff6b6b;
+        .change-count {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            min-width: 110px;
+            padding: 10px 14px;
+            border-radius: 6px;
+            border-top: 4px solid #bdbdbd;
+            background: rgba(0, 0, 0, 0.03);
         }
 
-        /* Spec file column styling */
-        .data-table td:nth-child(4) {
-            font-family: 'Courier New', monospace;
+        .change-count-value {
+            font-size: 1.5rem;
+            font-weight: 600;
+        }
+
+        .change-count-label {
             font-size: 0.8rem;
-            color: #5A738E;
-            max-width: 200px;
-            word-wrap: break-word;
-            word-break: break-all;
-            text-align: left;
+            color: #73879C;
         }
 
-        body.darkmode .data-table td:nth-child(4) {
-            color: #a3c2db;
+        .change-newFailure { border-color: var(--md-error); }
+        .change-stillFailing { border-color: #b71c1c; }
+        .change-fixed { border-color: var(--md-success); }
+        .change-added { border-color: var(--md-info); }
+        .change-removed { border-color: #9e9e9e; }
+
+        .change-group {
+            border: 1px solid rgba(0, 0, 0, 0.1);
+            border-left-width: 3px;
+            border-radius: 4px;
+            margin-bottom: 8px;
         }
 
-        .data-table tr:hover {
-            background: #f8f9fa;
+        .change-group > summary {
+            padding: 8px 12px;
+            font-weight: 600;
+            cursor: pointer;
         }
 
-        .data-table tr:nth-child(even) {
-            background: #fafbfc;
+        .change-tests {
+            margin: 0;
+            padding: 0 12px 12px 32px;
+            font-size: 0.85rem;
         }
 
-        body.darkmode .data-table {
-            background: #1c1c21;
-            color: #b4bfca;
+        .change-outcomes {
+            margin-left: 6px;
+            color: #73879C;
+            font-size: 0.75rem;
         }
 
-        body.darkmode .data-table th {
-            background: #212121;
-            color: #a3c2db;
-            border-color: #2e2e2e;
+        .clusters-summary {
+            color: #73879C;
+            margin-bottom: 12px;
         }
 
-        body.darkmode .data-table td {
-            border-color: #2e2e2e;
+        .failure-cluster {
+            border: 1px solid rgba(0, 0, 0, 0.1);
+            border-left: 3px solid var(--md-error);
+            border-radius: 4px;
+            margin-bottom: 8px;
         }
 
-        body.darkmode .data-table tr:nth-child(even) {
-            background: #212121;
+        .failure-cluster > summary {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            padding: 8px 12px;
+            cursor: pointer;
         }
 
-        body.darkmode .data-table tr:hover {
-            background: #2a2a2f;
+        .cluster-count {
+            min-width: 28px;
+            padding: 2px 8px;
+            border-radius: 10px;
+            background: var(--md-error);
+            color: #fff;
+            font-weight: 600;
+            font-size: 0.8rem;
+            text-align: center;
         }
 
-        body.darkmode .table-responsive {
-            border-color: #2e2e2e;
+        .cluster-signature {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
         }
 
-        /* Status Badges */
-        .status-badge {
-            padding: 4px 8px;
-            border-radius: 12px;
-            font-size: 0.7rem;
+        .cluster-body {
+            padding: 0 12px 12px;
+        }
+
+        .cluster-label {
+            font-size: 0.75rem;
             font-weight: 600;
             text-transform: uppercase;
-            display: inline-flex;
-            align-items: center;
-            justify-content: center;
-            gap: 3px;
-            min-width: 70px;
-            white-space: nowrap;
+            color: #73879C;
+            margin: 8px 0 4px;
         }
 
-        .status-passed {
-            background: rgba(76, 175, 80, 0.12);
-            color: var(--md-success);
-            border: 1px solid rgba(76, 175, 80, 0.3);
+        .cluster-pre {
+            max-height: 200px;
+            overflow: auto;
+            padding: 8px;
+            border-radius: 4px;
+            background: rgba(0, 0, 0, 0.04);
+            font-size: 0.75rem;
+            white-space: pre-wrap;
+            word-break: break-word;
         }
 
-        .status-failed {
-            background: rgba(244, 67, 54, 0.12);
-            color: var(--md-error);
-            border: 1px solid rgba(244, 67, 54, 0.3);
+        .cluster-tests {
+            margin: 0;
+            padding-left: 20px;
+            font-size: 0.85rem;
         }
 
-        .status-skipped {
-            background: rgba(33, 150, 243, 0.12);
-            color: var(--md-info);
-            border: 1px solid rgba(33, 150, 243, 0.3);
+        .cluster-more {
+            color: #73879C;
         }
 
-        /* Retry Badge */
-        .retry-badge {
-            background: rgba(255, 193, 7, 0.1);
-            color: #ff9800;
-            padding: 4px 8px;
-            border-radius: 4px;
-            font-size: 0.85em;
-            border: 1px solid rgba(255, 193, 7, 0.3);
+        .slower-badge {
+            display: inline-block;
+            padding: 1px 8px;
+            border-radius: 10px;
+            font-size: 0.7rem;
+            font-weight: 600;
+            background: rgba(255, 152, 0, 0.15);
+            color: #e65100;
+            white-space: nowrap;
         }
 
-        .retry-badge-large {
-            background: rgba(255, 193, 7, 0.15);
-            color: #ff9800;
-            padding: 6px 12px;
-            border-radius: 6px;
-            font-size: 0.9em;
-            border: 1px solid rgba(255, 193, 7, 0.4);
+        body.darkmode .slower-badge {
+            color: #ffb74d;
+        }
+
+        .known-issue-badge {
+            display: inline-block;
+            margin-top: 4px;
+            padding: 1px 8px;
+            border-radius: 10px;
+            font-size: 0.7rem;
             font-weight: 600;
-            display: inline-flex;
-            align-items: center;
-            gap: 6px;
+            background: rgba(158, 158, 158, 0.2);
+            color: #616161;
+            text-decoration: none;
+            white-space: nowrap;
         }
 
-        /* Filters Section */
-        .filters-container {
-            display: flex;
-            flex-wrap: wrap;
-            gap: 15px;
-            margin-bottom: 20px;
-            padding: 20px;
-            background: var(--md-surface-variant);
-            border-radius: 12px;
-            border: 1px solid var(--md-outline-variant);
-            align-items: flex-end;
+        .flakiness-score {
+            display: inline-block;
+            min-width: 40px;
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 0.75rem;
+            font-weight: 600;
+            text-align: center;
+            color: #fff;
         }
 
-        .filter-group {
-            display: flex;
-            flex-direction: column;
-            gap: 6px;
-            min-width: 180px;
-            flex: 1;
+        .flakiness-low { background: var(--md-success); }
+        .flakiness-medium { background: var(--md-warning); }
+        .flakiness-high { background: var(--md-error); }
+
+        .flakiness-runs {
+            font-size: 0.75rem;
+            color: #73879C;
         }
 
-        .filter-group label {
-            font-size: 0.85rem;
-            font-weight: 500;
-            color: rgba(0, 0, 0, 0.7);
-            display: flex;
-            align-items: center;
-            gap: 6px;
+        .history-sparkline {
+            display: block;
         }
 
-        .filter-input,
-        .filter-select {
-            padding: 10px 14px;
-            border: 1px solid var(--md-outline);
-            border-radius: 8px;
-            font-size: 0.95rem;
-            background: var(--md-surface);
-            color: rgba(0, 0, 0, 0.87);
-            transition: all 0.2s ease;
+        .history-sparkline rect {
+            cursor: default;
         }
 
-        .filter-input:focus,
-        .filter-select:focus {
-            outline: none;
-            border-color: var(--md-primary);
-            box-shadow: 0 0 0 3px rgba(25, 118, 210, 0.1);
+        .spark-expected { fill: var(--md-success); }
+        .spark-unexpected { fill: var(--md-error); }
+        .spark-flaky { fill: var(--md-warning); }
+        .spark-skipped { fill: #bdbdbd; }
+
+        .test-row.row-highlight {
+            background: rgba(25, 118, 210, 0.12);
+            transition: background 0.3s;
         }
 
-        .clear-filters-btn {
-            padding: 10px 20px;
-            background: var(--md-error);
-            color: white;
-            border: none;
-            border-radius: 8px;
-            cursor: pointer;
-            font-size: 0.95rem;
-            font-weight: 500;
-            transition: all 0.2s ease;
+        .suite-tree {
+            font-size: 0.875rem;
+        }
+
+        .suite-node > summary {
             display: flex;
             align-items: center;
             gap: 8px;
-            white-space: nowrap;
+            padding: 6px 8px;
+            border-radius: 4px;
+            cursor: pointer;
         }
 
-        .clear-filters-btn:hover {
-            background: #d32f2f;
-            transform: translateY(-1px);
-            box-shadow: var(--md-shadow-elevation-2);
+        .suite-node > summary:hover,
+        .suite-test:hover {
+            background: rgba(0, 0, 0, 0.04);
         }
 
-        .results-summary {
-            margin-bottom: 15px;
-            padding: 12px 16px;
-            background: var(--md-primary);
-            color: white;
-            border-radius: 8px;
-            font-weight: 500;
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            flex-wrap: wrap;
-            gap: 10px;
+        .suite-node > summary > i {
+            color: var(--md-primary);
         }
 
-        .results-summary span {
-            font-weight: 700;
-            font-size: 1.1em;
+        .suite-has-failures > summary > i {
+            color: var(--md-error);
         }
 
-        .export-buttons {
-            display: flex;
-            gap: 8px;
+        .suite-project > summary,
+        .suite-file > summary {
+            font-weight: 600;
         }
 
-        .export-btn {
-            padding: 6px 14px;
-            background: rgba(255, 255, 255, 0.2);
-            color: white;
-            border: 1px solid rgba(255, 255, 255, 0.3);
-            border-radius: 6px;
-            cursor: pointer;
-            font-size: 0.85rem;
-            font-weight: 500;
-            transition: all 0.2s ease;
-            display: flex;
-            align-items: center;
-            gap: 6px;
+        .suite-children {
+            margin-left: 20px;
+            border-left: 1px dashed rgba(0, 0, 0, 0.15);
+            padding-left: 8px;
         }
 
-        .export-btn:hover {
-            background: rgba(255, 255, 255, 0.3);
-            border-color: rgba(255, 255, 255, 0.5);
-            transform: translateY(-1px);
+        .suite-title {
+            flex: 1;
+            word-break: break-word;
         }
 
-        .export-btn i {
-            font-size: 1rem;
+        .suite-counts {
+            display: flex;
+            gap: 4px;
         }
 
-        /* Pagination Controls */
-        .pagination-controls {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            margin-bottom: 15px;
-            padding: 15px 20px;
-            background: var(--md-surface-variant);
-            border-radius: 8px;
-            border: 1px solid var(--md-outline-variant);
-            flex-wrap: wrap;
-            gap: 15px;
+        .suite-count {
+            min-width: 24px;
+            padding: 1px 8px;
+            border-radius: 10px;
+            font-size: 0.75rem;
+            font-weight: 600;
+            text-align: center;
+            color: #fff;
         }
 
-        .pagination-info {
+        .suite-count-passed { background: var(--md-success); }
+        .suite-count-failed { background: var(--md-error); }
+        .suite-count-flaky { background: var(--md-warning); }
+        .suite-count-skipped { background: #9e9e9e; }
+
+        .suite-test {
             display: flex;
             align-items: center;
-            gap: 10px;
-        }
-
-        .pagination-info label {
-            font-size: 0.9rem;
-            font-weight: 500;
-            color: rgba(0, 0, 0, 0.7);
+            gap: 8px;
+            padding: 4px 8px;
+            border-radius: 4px;
+            cursor: pointer;
         }
 
-        .page-size-select {
-            padding: 8px 12px;
-            border: 1px solid var(--md-outline);
-            border-radius: 6px;
-            background: var(--md-surface);
-            color: rgba(0, 0, 0, 0.87);
-            font-size: 0.9rem;
-            cursor: pointer;
-            transition: all 0.2s ease;
+        .suite-test .status-badge {
+            font-size: 0.7rem;
+            padding: 2px 8px;
         }
 
-        .page-size-select:focus {
-            outline: none;
-            border-color: var(--md-primary);
-            box-shadow: 0 0 0 3px rgba(25, 118, 210, 0.1);
+        .suite-test-duration {
+            color: #73879C;
+            white-space: nowrap;
         }
 
-        .pagination-buttons {
+        .step-node > summary {
             display: flex;
             align-items: center;
-            gap: 10px;
-        }
-
-        .pagination-btn {
-            padding: 8px 12px;
-            background: var(--md-surface);
-            border: 1px solid var(--md-outline);
-            border-radius: 6px;
+            gap: 8px;
+            padding: 4px 6px;
+            border-radius: 4px;
             cursor: pointer;
-            transition: all 0.2s ease;
-            color: rgba(0, 0, 0, 0.7);
-            font-size: 1rem;
         }
 
-        .pagination-btn:hover:not(:disabled) {
-            background: var(--md-primary);
-            color: white;
-            border-color: var(--md-primary);
-            transform: translateY(-1px);
-            box-shadow: var(--md-shadow-elevation-1);
+        .step-node > summary:hover {
+            background: rgba(0, 0, 0, 0.04);
         }
 
-        .pagination-btn:disabled {
-            opacity: 0.4;
-            cursor: not-allowed;
+        .step-leaf > summary {
+            list-style: none;
+            cursor: default;
         }
 
-        .page-indicator {
-            padding: 0 10px;
-            font-size: 0.9rem;
-            font-weight: 500;
-            color: rgba(0, 0, 0, 0.7);
-            white-space: nowrap;
+        .step-leaf > summary::-webkit-details-marker {
+            display: none;
         }
 
-        .page-indicator span {
-            font-weight: 700;
-            color: var(--md-primary);
+        .step-node > summary i {
+            color: var(--md-success);
         }
 
-        body.darkmode .pagination-controls {
-            background: var(--md-surface);
-            border-color: var(--md-outline);
+        .step-error > summary i {
+            color: var(--md-error);
         }
 
-        body.darkmode .pagination-info label,
-        body.darkmode .page-indicator {
-            color: rgba(255, 255, 255, 0.7);
+        .step-failing > summary {
+            background: rgba(244, 67, 54, 0.1);
+            border-left: 3px solid var(--md-error);
+            font-weight: 600;
         }
 
-        body.darkmode .page-size-select,
-        body.darkmode .pagination-btn {
-            background: var(--md-surface-variant);
-            color: rgba(255, 255, 255, 0.87);
-            border-color: var(--md-outline);
+        .step-category {
+            font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+            font-size: 0.7rem;
+            padding: 1px 6px;
+            border-radius: 4px;
+            background: rgba(25, 118, 210, 0.1);
+            color: var(--md-primary);
         }
 
-        body.darkmode .page-indicator span {
-            color: var(--md-primary-light);
+        .step-title {
+            flex: 1;
+            word-break: break-word;
         }
 
-        body.darkmode .filters-container {
-            background: var(--md-surface);
-            border-color: var(--md-outline);
+        .step-duration,
+        .step-location {
+            color: #73879C;
+            white-space: nowrap;
         }
 
-        body.darkmode .filter-group label {
-            color: rgba(255, 255, 255, 0.7);
+        .step-location {
+            font-family: 'Courier New', monospace;
         }
 
-        body.darkmode .filter-input,
-        body.darkmode .filter-select {
-            background: var(--md-surface-variant);
-            color: rgba(255, 255, 255, 0.87);
-            border-color: var(--md-outline);
+        .step-children {
+            margin-left: 18px;
+            border-left: 1px dashed #E6E9ED;
+            padding-left: 6px;
         }
 
-        /* Trends Section */
-        .trend-chart-container {
-            background: var(--md-surface);
-            padding: 20px;
-            border-radius: 12px;
-            border: 1px solid var(--md-outline-variant);
-            box-shadow: var(--md-shadow-elevation-1);
-            height: 100%;
+        body.darkmode .step-children {
+            border-color: #2e2e2e;
         }
 
-        .trend-chart-container h3 {
-            margin: 0 0 20px 0;
-            font-size: 1.1rem;
-            font-weight: 500;
-            color: var(--md-primary);
-            text-align: center;
+        .step-node > .attempt-error {
+            margin: 4px 0 6px 24px;
         }
 
-        .trend-chart-container canvas {
-            width: 100% !important;
-            height: 250px !important;
+        /* Attempts Timeline */
+        .attempts-timeline {
+            display: flex;
+            gap: 16px;
+            overflow-x: auto;
+            padding-bottom: 6px;
         }
 
-        body.darkmode .trend-chart-container {
-            background: var(--md-surface-variant);
-            border-color: var(--md-outline);
+        .attempt-card {
+            flex: 1 0 280px;
+            max-width: 480px;
+            background: white;
+            border: 1px solid #E6E9ED;
+            border-top: 4px solid var(--md-info);
+            border-radius: 8px;
+            padding: 12px 14px;
         }
 
-        body.darkmode .trend-chart-container h3 {
-            color: var(--md-primary-light);
+        .attempt-card.attempt-passed {
+            border-top-color: var(--md-success);
         }
 
-        /* Flaky Tests Section */
-        .flaky-warning {
-            background: linear-gradient(135deg, rgba(255, 193, 7, 0.1), rgba(255, 152, 0, 0.05));
-            border-left: 4px solid #ff9800;
-            padding: 16px 20px;
-            margin-bottom: 20px;
-            border-radius: 8px;
-            font-size: 1rem;
+        .attempt-card.attempt-failed,
+        .attempt-card.attempt-timedOut,
+        .attempt-card.attempt-interrupted {
+            border-top-color: var(--md-error);
         }
 
-        .flaky-warning strong {
-            color: #ff9800;
+        body.darkmode .attempt-card {
+            background: #1c1c21;
+            border-color: #2e2e2e;
         }
 
-        .flaky-table {
-            border: 2px solid rgba(255, 193, 7, 0.3);
+        .attempt-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 8px;
         }
 
-        .flaky-row {
-            background: rgba(255, 193, 7, 0.03);
+        .attempt-title {
+            font-weight: 600;
         }
 
-        .flaky-row:hover {
-            background: rgba(255, 193, 7, 0.08) !important;
+        .attempt-meta {
+            display: flex;
+            gap: 16px;
+            color: #73879C;
+            font-size: 0.8rem;
+            margin-bottom: 8px;
         }
 
-        body.darkmode .flaky-warning {
-            background: linear-gradient(135deg, rgba(255, 193, 7, 0.15), rgba(255, 152, 0, 0.08));
-            border-left-color: #ffb74d;
+        .attempt-error {
+            font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+            font-size: 0.75rem;
+            white-space: pre-wrap;
+            word-break: break-word;
+            max-height: 200px;
+            overflow-y: auto;
+            background: rgba(231, 76, 60, 0.05);
+            color: #e74c3c;
+            border-left: 2px solid #e74c3c;
+            padding: 8px 10px;
+            margin: 0 0 8px 0;
         }
 
-        body.darkmode .flaky-warning strong {
-            color: #ffb74d;
+        body.darkmode .attempt-error {
+            background: rgba(231, 76, 60, 0.1);
+            color: #ff6b6b;
+            border-left-color: #ff6b6b;
         }
 
-        /* Attachments */
-        .attachments-container {
+        .attempt-screenshots {
             display: flex;
-            gap: 6px;
-            justify-content: center;
+            gap: 8px;
             flex-wrap: wrap;
+            margin-bottom: 8px;
         }
 
-        .attachment-btn {
-            background: var(--md-primary);
-            color: white;
-            border: none;
-            padding: 8px 12px;
-            border-radius: 6px;
-            cursor: pointer;
-            transition: all 0.2s ease;
-            font-size: 14px;
-        }
-
-        .attachment-btn:hover {
-            background: var(--md-primary-dark);
-            transform: translateY(-2px);
-            box-shadow: var(--md-shadow-elevation-2);
+        .attempt-screenshots img {
+            max-width: 100%;
+            max-height: 180px;
+            border: 1px solid #E6E9ED;
+            border-radius: 4px;
+            cursor: zoom-in;
         }
 
-        .no-attachments {
-            color: #999;
-            font-style: italic;
+        .attempt-card .attachments-container {
+            justify-content: flex-start;
         }
 
         /* Lightbox */
@@ -1943,7 +3614,7 @@ export class EnhancedHTMLGenerator {
     `;
   }
 
-  private static getJavaScript(metrics: TestMetrics, includeCharts: boolean, trendsData: any[]): string {
+  private static getJavaScript(metrics: TestMetrics, includeCharts: boolean, trendsData: any[], annotations: AnnotationDimension[]): string {
     return `
         // Dark Mode Toggle
         function toggleDarkMode() {
@@ -1993,9 +3664,10 @@ export class EnhancedHTMLGenerator {
 
         // Lightbox functionality
         let currentLightboxData = [];
+        let currentLightboxAttempt = 0;
         let currentLightboxIndex = 0;
 
-        function openLightbox(path, name, testIndex, attachmentIndex, isVideo) {
+        function openLightbox(path, name, testIndex, attemptIndex, attachmentIndex, isVideo) {
             const lightbox = document.getElementById('lightbox');
             const img = document.getElementById('lightbox-img');
             const video = document.getElementById('lightbox-video');
@@ -2011,10 +3683,11 @@ export class EnhancedHTMLGenerator {
                 img.src = path;
             }
             
-            caption.innerHTML = name;
+            caption.textContent = name;
             lightbox.classList.add('active');
             
             // Store current data for navigation
+            currentLightboxAttempt = attemptIndex;
             currentLightboxIndex = attachmentIndex;
             // You can enhance this to collect all attachments from the test
         }
@@ -2040,12 +3713,35 @@ export class EnhancedHTMLGenerator {
             }
         });
 
+        // Expand/collapse the attempts row under a test
+        function toggleTestDetails(index) {
+            const row = document.getElementById('test-row-' + index);
+            const detailsRow = document.getElementById('test-details-' + index);
+            if (!row || !detailsRow) return;
+            
+            row.classList.toggle('expanded');
+            detailsRow.style.display = row.classList.contains('expanded') ? '' : 'none';
+        }
+
+        // Switch between the Attempts/Steps/Console tabs of an expanded test
+        function switchDetailsTab(index, tabName) {
+            const detailsRow = document.getElementById('test-details-' + index);
+            if (!detailsRow) return;
+            
+            detailsRow.querySelectorAll('.details-tab').forEach(tab => {
+                tab.classList.toggle('active', tab.dataset.tab === tabName);
+            });
+            detailsRow.querySelectorAll('.details-tab-panel').forEach(panel => {
+                panel.classList.toggle('active', panel.dataset.panel === tabName);
+            });
+        }
+
         // Filtering and Pagination functionality
         function initializeFilters() {
-            const table = document.querySelector('.data-table tbody');
+            const table = document.querySelector('#test-details-table tbody');
             if (!table) return;
             
-            const rows = Array.from(table.querySelectorAll('tr'));
+            const rows = Array.from(table.querySelectorAll('tr.test-row'));
             const totalCount = rows.length;
             
             // Pagination state
@@ -2055,17 +3751,17 @@ export class EnhancedHTMLGenerator {
             
             // Populate dynamic filters
             const browsers = new Set();
-            const features = new Set();
+            const tags = new Set();
+            const annotationFilters = Array.from(document.querySelectorAll('.annotation-filter'));
             
             rows.forEach(row => {
+                row.annotations = JSON.parse(row.dataset.annotations || '{}');
+                (row.dataset.tags || '').split(' ').filter(Boolean).forEach(tag => tags.add(tag));
                 const browserCell = row.cells[2]?.textContent.trim().replace(/^.*\\s/, '');
-                const featureCell = row.cells[7]?.textContent.trim().replace(/^.*\\s/, '');
                 if (browserCell) browsers.add(browserCell);
-                if (featureCell) features.add(featureCell);
             });
             
             const browserFilter = document.getElementById('browser-filter');
-            const featureFilter = document.getElementById('feature-filter');
             
             browsers.forEach(browser => {
                 const option = document.createElement('option');
@@ -2074,11 +3770,12 @@ export class EnhancedHTMLGenerator {
                 browserFilter.appendChild(option);
             });
             
-            features.forEach(feature => {
+            const tagFilter = document.getElementById('tag-filter');
+            Array.from(tags).sort().forEach(tag => {
                 const option = document.createElement('option');
-                option.value = feature;
-                option.textContent = feature;
-                featureFilter.appendChild(option);
+                option.value = tag;
+                option.textContent = tag;
+                tagFilter.appendChild(option);
             });
             
             // Update count
@@ -2090,24 +3787,26 @@ export class EnhancedHTMLGenerator {
                 const searchValue = document.getElementById('search-input').value.toLowerCase();
                 const statusValue = document.getElementById('status-filter').value.toLowerCase();
                 const browserValue = document.getElementById('browser-filter').value;
-                const severityValue = document.getElementById('severity-filter').value.toLowerCase();
-                const featureValue = document.getElementById('feature-filter').value;
+                const tagValue = document.getElementById('tag-filter').value;
+                const ownerValue = document.getElementById('owner-filter').value;
                 
                 // First, filter rows
                 filteredRows = rows.filter(row => {
                     const testName = row.cells[0]?.textContent.toLowerCase() || '';
-                    const status = row.cells[1]?.textContent.toLowerCase() || '';
+                    const outcome = row.dataset.outcome;
                     const browser = row.cells[2]?.textContent || '';
-                    const severity = row.cells[6]?.textContent.toLowerCase() || '';
-                    const feature = row.cells[7]?.textContent || '';
+                    const rowTags = (row.dataset.tags || '').split(' ');
                     
                     const matchesSearch = testName.includes(searchValue);
-                    const matchesStatus = !statusValue || status.includes(statusValue);
+                    // Like the metrics, flaky tests count as passed; 'known' matches failures with a known issue
+                    const matchesStatus = !statusValue ||
+                        (statusValue === 'known' ? !!row.querySelector('.known-issue-badge') : outcome === statusValue || (statusValue === 'passed' && outcome === 'flaky'));
                     const matchesBrowser = !browserValue || browser.includes(browserValue);
-                    const matchesSeverity = !severityValue || severity.includes(severityValue);
-                    const matchesFeature = !featureValue || feature.includes(featureValue);
+                    const matchesTag = !tagValue || rowTags.includes(tagValue);
+                    const matchesOwner = !ownerValue || JSON.parse(row.dataset.owners || '[]').includes(ownerValue);
+                    const matchesAnnotations = annotationFilters.every(filter => !filter.value || row.annotations[filter.dataset.dimension] === filter.value);
                     
-                    return matchesSearch && matchesStatus && matchesBrowser && matchesSeverity && matchesFeature;
+                    return matchesSearch && matchesStatus && matchesBrowser && matchesTag && matchesOwner && matchesAnnotations;
                 });
                 
                 // Reset to first page when filters change
@@ -2120,6 +3819,15 @@ export class EnhancedHTMLGenerator {
                 applyPagination();
             }
             
+            // A test row carries its details row along, which stays open only if expanded
+            function setRowVisible(row, visible) {
+                row.style.display = visible ? '' : 'none';
+                const detailsRow = row.nextElementSibling;
+                if (detailsRow && detailsRow.classList.contains('test-details-row')) {
+                    detailsRow.style.display = visible && row.classList.contains('expanded') ? '' : 'none';
+                }
+            }
+            
             function applyPagination() {
                 const pageSizeValue = document.getElementById('page-size').value;
                 pageSize = pageSizeValue === 'all' ? filteredRows.length : parseInt(pageSizeValue);
@@ -2129,11 +3837,11 @@ export class EnhancedHTMLGenerator {
                 const endIndex = startIndex + pageSize;
                 
                 // Hide all rows first
-                rows.forEach(row => row.style.display = 'none');
+                rows.forEach(row => setRowVisible(row, false));
                 
                 // Show only rows for current page
                 filteredRows.slice(startIndex, endIndex).forEach(row => {
-                    row.style.display = '';
+                    setRowVisible(row, true);
                 });
                 
                 // Update pagination UI
@@ -2151,8 +3859,9 @@ export class EnhancedHTMLGenerator {
             document.getElementById('search-input').addEventListener('input', applyFilters);
             document.getElementById('status-filter').addEventListener('change', applyFilters);
             document.getElementById('browser-filter').addEventListener('change', applyFilters);
-            document.getElementById('severity-filter').addEventListener('change', applyFilters);
-            document.getElementById('feature-filter').addEventListener('change', applyFilters);
+            annotationFilters.forEach(filter => filter.addEventListener('change', applyFilters));
+            document.getElementById('tag-filter').addEventListener('change', applyFilters);
+            document.getElementById('owner-filter').addEventListener('change', applyFilters);
             
             // Attach event listeners for pagination
             document.getElementById('page-size').addEventListener('change', function() {
@@ -2190,11 +3899,25 @@ export class EnhancedHTMLGenerator {
                 document.getElementById('search-input').value = '';
                 document.getElementById('status-filter').value = '';
                 document.getElementById('browser-filter').value = '';
-                document.getElementById('severity-filter').value = '';
-                document.getElementById('feature-filter').value = '';
+                annotationFilters.forEach(filter => filter.value = '');
+                document.getElementById('tag-filter').value = '';
+                document.getElementById('owner-filter').value = '';
                 applyFilters();
             });
             
+            // Jump from the suite tree to a test's row: clear filters, open its page and expand it
+            window.revealTest = function(index) {
+                const row = document.getElementById('test-row-' + index);
+                if (!row) return;
+                document.getElementById('clear-filters').click();
+                currentPage = Math.floor(filteredRows.indexOf(row) / pageSize) + 1;
+                applyPagination();
+                if (!row.classList.contains('expanded')) toggleTestDetails(index);
+                row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                row.classList.add('row-highlight');
+                setTimeout(() => row.classList.remove('row-highlight'), 2000);
+            };
+            
             // Export functionality
             document.getElementById('export-csv').addEventListener('click', function() {
                 exportToCSV(filteredRows);
@@ -2210,21 +3933,24 @@ export class EnhancedHTMLGenerator {
         
         // Export to CSV
         function exportToCSV(rows) {
-            const headers = ['Test Name', 'Status', 'Browser', 'Spec File', 'Duration (ms)', 'Retry', 'Severity', 'Feature', 'Error'];
+            const dimensions = Array.from(document.querySelectorAll('.annotation-filter')).map(filter => filter.dataset.dimension);
+            const headers = ['Test Name', 'Title Path', 'Status', 'Browser', 'Spec File', 'Duration (ms)', 'Retry', ...dimensions.map(escapeCsvCell), 'Tags', 'Owners', 'Error'];
             const csvRows = [headers.join(',')];
             
             rows.forEach(row => {
                 const cells = Array.from(row.cells);
                 const rowData = [
-                    escapeCsvCell(cells[0]?.textContent || ''),
+                    escapeCsvCell(row.querySelector('.test-name')?.textContent.trim() || ''),
+                    escapeCsvCell(row.dataset.titlePath || ''),
                     escapeCsvCell(cells[1]?.textContent.trim() || ''),
                     escapeCsvCell(cells[2]?.textContent.trim() || ''),
                     escapeCsvCell(cells[3]?.textContent.trim() || ''),
-                    escapeCsvCell(cells[4]?.textContent.trim() || ''),
+                    escapeCsvCell(cells[4]?.querySelector('.duration-value')?.textContent.trim() || ''),
                     escapeCsvCell(cells[5]?.textContent.trim() || ''),
-                    escapeCsvCell(cells[6]?.textContent.trim() || ''),
-                    escapeCsvCell(cells[7]?.textContent.trim() || ''),
-                    escapeCsvCell(cells[9]?.textContent.trim() || '')
+                    ...dimensions.map(dimension => escapeCsvCell(row.annotations[dimension] || '')),
+                    escapeCsvCell(row.dataset.tags || ''),
+                    escapeCsvCell(JSON.parse(row.dataset.owners || '[]').join(' ')),
+                    escapeCsvCell(row.querySelector('.error-cell')?.textContent.trim() || '')
                 ];
                 csvRows.push(rowData.join(','));
             });
@@ -2240,15 +3966,17 @@ export class EnhancedHTMLGenerator {
             rows.forEach(row => {
                 const cells = Array.from(row.cells);
                 results.push({
-                    testName: cells[0]?.textContent || '',
+                    testName: row.querySelector('.test-name')?.textContent.trim() || '',
+                    titlePath: row.dataset.titlePath || '',
                     status: cells[1]?.textContent.trim() || '',
                     browser: cells[2]?.textContent.trim() || '',
                     specFile: cells[3]?.textContent.trim() || '',
-                    duration: cells[4]?.textContent.trim() || '',
+                    duration: cells[4]?.querySelector('.duration-value')?.textContent.trim() || '',
                     retry: cells[5]?.textContent.trim() || '',
-                    severity: cells[6]?.textContent.trim() || '',
-                    feature: cells[7]?.textContent.trim() || '',
-                    error: cells[9]?.textContent.trim() || ''
+                    ...row.annotations,
+                    tags: (row.dataset.tags || '').split(' ').filter(Boolean),
+                    owners: JSON.parse(row.dataset.owners || '[]'),
+                    error: row.querySelector('.error-cell')?.textContent.trim() || ''
                 });
             });
             
@@ -2279,12 +4007,19 @@ export class EnhancedHTMLGenerator {
         // Initialize filters on load
         document.addEventListener('DOMContentLoaded', initializeFilters);
 
-        ${includeCharts ? this.getChartsScript(metrics) : ''}
+        ${includeCharts ? this.getChartsScript(metrics, annotations) : ''}
         ${trendsData.length > 0 ? this.getTrendsChartsScript(trendsData) : ''}
     `;
   }
 
-  private static getChartsScript(metrics: TestMetrics): string {
+  /**
+   * JSON for an inline script; escaping '<' keeps user-supplied strings from closing the script tag
+   */
+  private static toScriptJSON(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c');
+  }
+
+  private static getChartsScript(metrics: TestMetrics, annotations: AnnotationDimension[]): string {
     return `
         // Charts initialization
         document.addEventListener('DOMContentLoaded', function() {
@@ -2325,14 +4060,14 @@ export class EnhancedHTMLGenerator {
             });
 
             // Error Categories Chart
-            if (Object.keys(${JSON.stringify(metrics.errorCategories)}).length > 0) {
+            if (Object.keys(${this.toScriptJSON(metrics.errorCategories)}).length > 0) {
                 new Chart(document.getElementById('error-chart'), {
                     type: 'pie',
                     data: {
-                        labels: [${Object.keys(metrics.errorCategories).map((c: string) => `'${c}'`).join(',')}],
+                        labels: ${this.toScriptJSON(Object.keys(metrics.errorCategories))},
                         datasets: [{
                             data: [${Object.values(metrics.errorCategories).join(',')}],
-                            backgroundColor: ['#E74C3C', '#F39C12', '#FFD119', '#3498DB', '#9f7aea', '#1ABB9C']
+                            backgroundColor: ${this.toScriptJSON(Object.keys(metrics.errorCategories).map((category, index) => metrics.errorCategoryColors?.[category] || ERROR_CATEGORY_PALETTE[index % ERROR_CATEGORY_PALETTE.length]))}
                         }]
                     },
                     options: {
@@ -2343,30 +4078,46 @@ export class EnhancedHTMLGenerator {
                 });
             }
 
-            // Severity Chart
-            new Chart(document.getElementById('severity-chart'), {
-                type: 'bar',
-                data: {
-                    labels: [${Object.keys(metrics.severityMetrics).map((s: string) => `'${s.toUpperCase()}'`).join(',')}],
-                    datasets: [{
-                        label: 'Tests',
-                        data: [${Object.values(metrics.severityMetrics).map((m: any) => m.total).join(',')}],
-                        backgroundColor: '#667eea'
-                    }]
-                },
-                options: {
-                    responsive: true,
-                    maintainAspectRatio: false,
-                    legend: { display: false },
-                    scales: {
-                        yAxes: [{ ticks: { beginAtZero: true } }]
+            // One stacked passed/failed chart per annotation dimension
+            ${this.toScriptJSON(annotations.map(dimension => this.getAnnotationChartData(metrics, dimension)))}.forEach((chartData, index) => {
+                new Chart(document.getElementById('annotation-chart-' + index), {
+                    type: 'bar',
+                    data: {
+                        labels: chartData.labels,
+                        datasets: [
+                            { label: 'Passed', data: chartData.passed, backgroundColor: '#1ABB9C' },
+                            { label: 'Failed', data: chartData.failed, backgroundColor: '#E74C3C' }
+                        ]
+                    },
+                    options: {
+                        responsive: true,
+                        maintainAspectRatio: false,
+                        scales: {
+                            x: { stacked: true },
+                            y: { stacked: true, beginAtZero: true }
+                        }
                     }
-                }
+                });
             });
         });
     `;
   }
 
+  /**
+   * Chart series for a dimension; allowed values keep their declared order, including ones no test used
+   */
+  private static getAnnotationChartData(metrics: TestMetrics, dimension: AnnotationDimension) {
+    const valueMetrics = (metrics.annotationMetrics || {})[dimension.type] || {};
+    const labels = dimension.values
+      ? dimension.values.concat(Object.keys(valueMetrics).filter(value => !dimension.values!.includes(value)))
+      : Object.keys(valueMetrics).sort();
+    return {
+      labels,
+      passed: labels.map(value => valueMetrics[value]?.passed || 0),
+      failed: labels.map(value => valueMetrics[value]?.failed || 0)
+    };
+  }
+
   private static getTrendsChartsScript(trendsData: any[]): string {
     // Format timestamps for labels
     const labels = trendsData.map(t => {
@@ -2378,7 +4129,9 @@ export class EnhancedHTMLGenerator {
     const totalTests = trendsData.map(t => t.totalTests);
     const passed = trendsData.map(t => t.passed);
     const failed = trendsData.map(t => t.failed);
-    const durations = trendsData.map(t => (t.duration / 1000).toFixed(2));
+    const durations = trendsData.map(t => ((t.cumulativeDuration ?? t.duration) / 1000).toFixed(2));
+    // Runs recorded before wall-clock tracking have no value and leave a gap in the line
+    const wallClockDurations = trendsData.map(t => t.wallClockDuration !== undefined ? (t.wallClockDuration / 1000).toFixed(2) : null);
 
     return `
         // Trends Charts
@@ -2473,20 +4226,36 @@ export class EnhancedHTMLGenerator {
                     type: 'line',
                     data: {
                         labels: ${JSON.stringify(labels)},
-                        datasets: [{
-                            label: 'Duration (s)',
-                            data: ${JSON.stringify(durations)},
-                            borderColor: '#9b59b6',
-                            backgroundColor: 'rgba(155, 89, 182, 0.1)',
-                            borderWidth: 3,
-                            fill: true,
-                            tension: 0.4,
-                            pointRadius: 5,
-                            pointBackgroundColor: '#9b59b6',
-                            pointBorderColor: '#fff',
-                            pointBorderWidth: 2,
-                            pointHoverRadius: 7
-                        }]
+                        datasets: [
+                            {
+                                label: 'Wall-clock (s)',
+                                data: ${JSON.stringify(wallClockDurations)},
+                                borderColor: '#3498DB',
+                                backgroundColor: 'rgba(52, 152, 219, 0.1)',
+                                borderWidth: 3,
+                                fill: false,
+                                tension: 0.4,
+                                pointRadius: 5,
+                                pointBackgroundColor: '#3498DB',
+                                pointBorderColor: '#fff',
+                                pointBorderWidth: 2,
+                                pointHoverRadius: 7
+                            },
+                            {
+                                label: 'Cumulative test time (s)',
+                                data: ${JSON.stringify(durations)},
+                                borderColor: '#9b59b6',
+                                backgroundColor: 'rgba(155, 89, 182, 0.1)',
+                                borderWidth: 3,
+                                fill: true,
+                                tension: 0.4,
+                                pointRadius: 5,
+                                pointBackgroundColor: '#9b59b6',
+                                pointBorderColor: '#fff',
+                                pointBorderWidth: 2,
+                                pointHoverRadius: 7
+                            }
+                        ]
                     },
                     options: {
                         responsive: true,
@@ -2500,11 +4269,11 @@ export class EnhancedHTMLGenerator {
                             }
                         },
                         plugins: {
-                            legend: { display: false },
+                            legend: { display: true, position: 'bottom' },
                             tooltip: {
                                 callbacks: {
                                     label: function(context) {
-                                        return 'Duration: ' + context.parsed.y + 's';
+                                        return context.dataset.label.replace(' (s)', '') + ': ' + context.parsed.y + 's';
                                     }
                                 }
                             }
@@ -1,16 +1,51 @@
-import { Reporter, TestCase, TestResult, FullResult } from '@playwright/test/reporter';
+import { Reporter, FullConfig, Suite, TestCase, TestResult, TestStep, TestError, FullResult } from '@playwright/test/reporter';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { TestMetrics, TestResultDetail, EnhancedReporterOptions } from './types';
+import { TestMetrics, TestResultDetail, TestAttempt, TestStepDetail, RunError, RunStatus, ShardInfo, PartialReport, EnhancedReporterOptions, KnownIssue, TestHistoryEntry, RunChange } from './types';
 import { EnhancedHTMLGenerator } from './html-generator';
+import { showReport } from './report-server';
+import { DEFAULT_ANNOTATION_DIMENSIONS, getDimensionLabel, resolveAnnotationValues, resolveLinks } from './annotations';
+import { CodeOwners, findOwners, hasOwners, loadCodeOwners } from './codeowners';
+import { DEFAULT_ERROR_CATEGORY_RULES, ERROR_CATEGORY_PALETTE, FALLBACK_ERROR_CATEGORY, categorizeError } from './error-categories';
+import { KnownIssues, loadKnownIssues, matchKnownIssue } from './known-issues';
+import { TEST_HISTORY_FILE, appendTestHistory, applyRetention, calculateFlakiness, detectDurationRegression, groupHistoryByTest, readTestHistory, writeTestHistory } from './test-history';
+import { getErrorSignature } from './failure-clusters';
+import { RUN_CHANGE_ICONS, RUN_CHANGE_LABELS, compareRuns, getPreviousRun } from './run-comparison';
+import { findPartialReports, loadPartialReports, mergeRunStatus, partialReportFileName } from './merge-reports';
 
-export { TestMetrics, TestResultDetail, TestAttachment, EnhancedReporterOptions } from './types';
+export { TestMetrics, TestResultDetail, TestAttempt, TestOutcome, TestStepDetail, TestAttachment, RunError, RunStatus, ShardInfo, ShardMode, PartialReport, EnhancedReporterOptions, OpenReportMode, AnnotationDimension, TestLink, ErrorInfo, ErrorCategoryRule, ErrorClassifier, KnownIssue, TestFlakiness, TestHistoryEntry, HistoryRetention, DurationRegression, DurationRegressionOptions, RunChange, RunComparison, RunComparisonEntry, ReportDiff, ReportDiffEntry, ReportDiffSide, CompareReportsOptions } from './types';
+export { DEFAULT_ANNOTATION_DIMENSIONS } from './annotations';
+export { DEFAULT_ERROR_CATEGORY_RULES } from './error-categories';
 export { EnhancedHTMLGenerator } from './html-generator';
+export { compareReports, diffReports, loadDetailedReport, renderDiffHTML, renderDiffMarkdown } from './compare-reports';
+export { ReportServer, ReportServerOptions, showReport } from './report-server';
+
+/**
+ * Merge partial reports from sharded runs; see EnhancedReporter.mergeReports
+ */
+export function mergeReports(inputs: string[], options: EnhancedReporterOptions = {}): Promise<void> {
+  return EnhancedReporter.mergeReports(inputs, options);
+}
 
 export default class EnhancedReporter implements Reporter {
   private metrics: TestMetrics;
   private testResults: TestResultDetail[] = [];
-  private options: Required<EnhancedReporterOptions>;
+  private testRecords = new Map<string, TestResultDetail>();
+  // Step trees of attempts still running, keyed by the attempt's TestResult
+  private stepTrees = new Map<TestResult, { steps: TestStepDetail[]; nodes: Map<TestStep, TestStepDetail> }>();
+  private options: Required<Omit<EnhancedReporterOptions, 'host' | 'port' | 'errorClassifier' | 'knownIssues'>> & Pick<EnhancedReporterOptions, 'host' | 'port' | 'errorClassifier' | 'knownIssues'>;
+  private runErrors: RunError[] = [];
+  private codeOwners: CodeOwners | null = null;
+  private knownIssues: KnownIssues | null = null;
+  // Recorded runs per test id, oldest first, this run included
+  private testHistory = new Map<string, TestHistoryEntry[]>();
+  // Colors from the rules or classifier results that produced each category
+  private errorCategoryColors: Record<string, string> = {};
+  // Annotation values already warned about, so each is reported once per run
+  private rejectedAnnotations = new Set<string>();
+  private globalTimeout = 0;
+  private maxFailures = 0;
+  private shard: ShardInfo | null = null;
 
   constructor(options: EnhancedReporterOptions = {}) {
     this.options = {
@@ -20,7 +55,22 @@ export default class EnhancedReporter implements Reporter {
       includeCharts: options.includeCharts ?? true,
       includeTrends: options.includeTrends ?? true,
       openReport: options.openReport ?? false,
-      theme: options.theme || 'auto'
+      theme: options.theme || 'auto',
+      offline: options.offline ?? false,
+      consoleOutputLimit: options.consoleOutputLimit ?? 50000,
+      shardMode: options.shardMode || 'auto',
+      annotations: options.annotations || DEFAULT_ANNOTATION_DIMENSIONS,
+      links: options.links || {},
+      codeowners: options.codeowners ?? true,
+      errorCategories: options.errorCategories || DEFAULT_ERROR_CATEGORY_RULES,
+      errorClassifier: options.errorClassifier,
+      knownIssues: options.knownIssues,
+      excludeKnownIssuesFromPassRate: options.excludeKnownIssuesFromPassRate ?? false,
+      flakinessWindow: options.flakinessWindow ?? 20,
+      historyRetention: options.historyRetention || { runs: 30 },
+      durationRegression: { factor: 1.5, minRuns: 3, ...options.durationRegression },
+      host: options.host,
+      port: options.port
     };
 
     this.metrics = {
@@ -37,143 +87,322 @@ export default class EnhancedReporter implements Reporter {
       endTime: new Date(),
       browserMetrics: {},
       errorCategories: {},
+      annotationMetrics: {},
       severityMetrics: {},
       featureMetrics: {},
-      epicMetrics: {}
+      epicMetrics: {},
+      tagMetrics: {},
+      ownerMetrics: {}
     };
   }
 
-  onBegin() {
+  onBegin(config: FullConfig, suite: Suite) {
     this.metrics.startTime = new Date();
+    this.metrics.plannedTests = suite.allTests().length;
+    this.globalTimeout = config.globalTimeout;
+    this.maxFailures = config.maxFailures;
+    this.metrics.workers = config.workers;
+    this.shard = config.shard;
+    this.codeOwners = this.loadCodeOwners();
+    this.knownIssues = this.loadKnownIssues();
     console.log('🚀 Starting Enhanced Test Reporter...');
   }
 
-  onTestEnd(test: TestCase, result: TestResult) {
-    this.metrics.totalTests++;
-    
-    const browserName = this.extractBrowserName(test);
-    
-    if (!this.metrics.browserMetrics[browserName]) {
-      this.metrics.browserMetrics[browserName] = { passed: 0, failed: 0, duration: 0 };
-    }
-    
-    const allureProperties = this.extractAllureProperties(test);
-    
-    // Check if test is flaky (passed after retries)
-    const isFlaky = result.retry > 0 && result.status === 'passed';
-    
-    if (result.status === 'passed') {
-      this.metrics.passed++;
-      this.metrics.browserMetrics[browserName].passed++;
-      this.updateAllureMetrics(allureProperties, 'passed');
-      
-      if (isFlaky) {
-        this.metrics.flaky++;
-      }
-    } else if (result.status === 'failed') {
-      this.metrics.failed++;
-      this.metrics.browserMetrics[browserName].failed++;
-      this.updateAllureMetrics(allureProperties, 'failed');
-      
-      if (result.error) {
-        const errorCategory = this.categorizeError(result.error.message || '');
-        this.metrics.errorCategories[errorCategory] = (this.metrics.errorCategories[errorCategory] || 0) + 1;
-      }
-    } else if (result.status === 'skipped') {
-      this.metrics.skipped++;
-    } else if (result.status === 'timedOut' || result.status === 'interrupted') {
-      this.metrics.failed++;
-      this.metrics.browserMetrics[browserName].failed++;
+  // Errors outside of any test: globalSetup failures, worker crashes, config errors
+  onError(error: TestError) {
+    this.runErrors.push({
+      message: error.message || error.value || 'Unknown error',
+      stack: error.stack,
+      location: error.location ? {
+        file: this.toRelativePath(error.location.file),
+        line: error.location.line,
+        column: error.location.column
+      } : undefined,
+      timestamp: new Date()
+    });
+  }
+
+  onStepBegin(test: TestCase, result: TestResult, step: TestStep) {
+    let tree = this.stepTrees.get(result);
+    if (!tree) {
+      tree = { steps: [], nodes: new Map() };
+      this.stepTrees.set(result, tree);
     }
     
-    this.metrics.duration += result.duration;
-    this.metrics.browserMetrics[browserName].duration += result.duration;
+    const node: TestStepDetail = {
+      title: step.title,
+      category: step.category,
+      duration: 0,
+      startTime: step.startTime,
+      location: step.location ? {
+        file: this.toRelativePath(step.location.file),
+        line: step.location.line,
+        column: step.location.column
+      } : undefined,
+      steps: []
+    };
+    tree.nodes.set(step, node);
     
-    if (!this.metrics.slowestTest || result.duration > this.metrics.slowestTest.duration) {
-      this.metrics.slowestTest = { name: test.title, duration: result.duration };
-    }
-    if (!this.metrics.fastestTest || result.duration < this.metrics.fastestTest.duration) {
-      this.metrics.fastestTest = { name: test.title, duration: result.duration };
-    }
+    const parent = step.parent ? tree.nodes.get(step.parent) : undefined;
+    (parent ? parent.steps : tree.steps).push(node);
+  }
+
+  onStepEnd(test: TestCase, result: TestResult, step: TestStep) {
+    const node = this.stepTrees.get(result)?.nodes.get(step);
+    if (!node) return;
     
+    node.duration = step.duration;
+    node.error = step.error?.message;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
     // Extract attachments (screenshots, videos, traces, etc.)
     const attachments = this.extractAttachments(result);
     
-    this.testResults.push({
-      test: test.title,
+    const steps = this.stepTrees.get(result)?.steps || [];
+    this.stepTrees.delete(result);
+    
+    const attempt: TestAttempt = {
+      retry: result.retry,
       status: result.status,
       duration: result.duration,
-      browser: browserName,
-      specFile: this.extractSpecFilePath(test),
-      retry: result.retry,
-      isFlaky,
+      startTime: result.startTime,
+      workerIndex: result.workerIndex,
+      parallelIndex: result.parallelIndex,
       error: result.error?.message,
       errorStack: result.error?.stack,
       attachments,
-      allureProperties
-    });
+      steps,
+      stdout: this.joinOutput(result.stdout),
+      stderr: this.joinOutput(result.stderr)
+    };
+    
+    // Retries of the same TestCase share one record
+    let record = this.testRecords.get(test.id);
+    if (!record) {
+      record = {
+        testId: test.id,
+        test: test.title,
+        // Drop the unnamed root suite
+        titlePath: test.titlePath().slice(1),
+        tags: this.extractTags(test),
+        outcome: 'expected',
+        status: result.status,
+        duration: result.duration,
+        browser: this.extractBrowserName(test),
+        specFile: this.extractSpecFilePath(test),
+        retry: result.retry,
+        attempts: [],
+        shard: this.shard?.current
+      };
+      this.testRecords.set(test.id, record);
+      this.testResults.push(record);
+    }
+    
+    record.attempts.push(attempt);
+    
+    // outcome() accounts for every attempt so far, so the last call wins
+    const outcome = test.outcome();
+    record.outcome = outcome;
+    record.isFlaky = outcome === 'flaky';
+    record.status = attempt.status;
+    record.duration = attempt.duration;
+    record.retry = attempt.retry;
+    record.error = attempt.error;
+    record.errorStack = attempt.errorStack;
+    record.attachments = attempt.attachments;
+    record.steps = attempt.steps;
+    record.allureProperties = this.extractAllureProperties(test);
+    record.links = resolveLinks(test.annotations || [], this.options.links);
+    record.owners = this.resolveOwners(test);
+    record.errorCategory = attempt.error ? this.categorizeError(record) : undefined;
+    record.knownIssue = outcome === 'unexpected' ? this.findKnownIssue(record) : undefined;
   }
 
-  private extractAllureProperties(test: TestCase): { severity?: string; feature?: string; epic?: string } {
-    const properties: { severity?: string; feature?: string; epic?: string } = {};
-    
-    test.annotations?.forEach((annotation: { type: string; description?: string }) => {
-      switch (annotation.type) {
-        case 'severity':
-          properties.severity = annotation.description || 'normal';
-          break;
-        case 'feature':
-          properties.feature = annotation.description || 'Unknown';
-          break;
-        case 'epic':
-          properties.epic = annotation.description || 'General';
-          break;
+  private calculateMetrics() {
+    for (const result of this.testResults) {
+      this.metrics.totalTests++;
+      
+      const browserName = result.browser;
+      
+      if (!this.metrics.browserMetrics[browserName]) {
+        this.metrics.browserMetrics[browserName] = { passed: 0, failed: 0, duration: 0 };
       }
-    });
-    
-    properties.severity = properties.severity || 'normal';
-    properties.feature = properties.feature || 'Unknown';
-    properties.epic = properties.epic || 'General';
+      
+      const allureProperties = result.allureProperties || {};
+      
+      if (result.outcome === 'expected' || result.outcome === 'flaky') {
+        this.metrics.passed++;
+        this.metrics.browserMetrics[browserName].passed++;
+        this.updateAllureMetrics(allureProperties, 'passed');
+        
+        if (result.outcome === 'flaky') {
+          this.metrics.flaky++;
+        }
+      } else if (result.outcome === 'unexpected') {
+        this.metrics.failed++;
+        this.metrics.browserMetrics[browserName].failed++;
+        if (result.knownIssue) {
+          this.metrics.knownFailures = (this.metrics.knownFailures || 0) + 1;
+        }
+        this.updateAllureMetrics(allureProperties, 'failed');
+        
+        if (result.error) {
+          const errorCategory = result.errorCategory || this.categorizeError(result);
+          this.metrics.errorCategories[errorCategory] = (this.metrics.errorCategories[errorCategory] || 0) + 1;
+        }
+      } else {
+        this.metrics.skipped++;
+      }
+      
+      this.updateTagMetrics(result);
+      this.updateOwnerMetrics(result);
+      
+      // Every attempt consumed worker time, including the retried ones
+      const attemptsDuration = result.attempts.reduce((sum, attempt) => sum + attempt.duration, 0);
+      this.metrics.duration += attemptsDuration;
+      this.metrics.browserMetrics[browserName].duration += attemptsDuration;
+      
+      if (!this.metrics.slowestTest || result.duration > this.metrics.slowestTest.duration) {
+        this.metrics.slowestTest = { name: result.test, duration: result.duration };
+      }
+      if (!this.metrics.fastestTest || result.duration < this.metrics.fastestTest.duration) {
+        this.metrics.fastestTest = { name: result.test, duration: result.duration };
+      }
+    }
     
-    return properties;
+    // Categories without a color from their rule take the palette color for their position
+    this.metrics.errorCategoryColors = {};
+    Object.keys(this.metrics.errorCategories).forEach((category, index) => {
+      this.metrics.errorCategoryColors![category] = this.errorCategoryColors[category] || ERROR_CATEGORY_PALETTE[index % ERROR_CATEGORY_PALETTE.length];
+    });
+  }
+
+  /**
+   * Tags from the `tag` option and `@tag` tokens in the title. Playwright before 1.42 has no test.tags, so titles are parsed too.
+   */
+  private extractTags(test: TestCase): string[] {
+    const tags = new Set<string>(test.tags || []);
+    test.titlePath().forEach(title => (title.match(/@[\w-]+/g) || []).forEach(tag => tags.add(tag)));
+    return Array.from(tags);
   }
 
-  private updateAllureMetrics(properties: { severity?: string; feature?: string; epic?: string }, status: 'passed' | 'failed') {
-    if (properties.severity) {
-      if (!this.metrics.severityMetrics[properties.severity]) {
-        this.metrics.severityMetrics[properties.severity] = { total: 0, passed: 0, failed: 0 };
+  private updateTagMetrics(result: TestResultDetail) {
+    for (const tag of result.tags || []) {
+      if (!this.metrics.tagMetrics[tag]) {
+        this.metrics.tagMetrics[tag] = { total: 0, passed: 0, failed: 0, flaky: 0, skipped: 0, passRate: 0 };
       }
-      this.metrics.severityMetrics[properties.severity].total++;
-      if (status === 'passed') {
-        this.metrics.severityMetrics[properties.severity].passed++;
+      const tagMetrics = this.metrics.tagMetrics[tag];
+      tagMetrics.total++;
+      if (result.outcome === 'expected' || result.outcome === 'flaky') {
+        tagMetrics.passed++;
+        if (result.outcome === 'flaky') tagMetrics.flaky++;
+      } else if (result.outcome === 'unexpected') {
+        tagMetrics.failed++;
       } else {
-        this.metrics.severityMetrics[properties.severity].failed++;
+        tagMetrics.skipped++;
       }
+      tagMetrics.passRate = (tagMetrics.passed / tagMetrics.total) * 100;
     }
-    
-    if (properties.feature) {
-      if (!this.metrics.featureMetrics[properties.feature]) {
-        this.metrics.featureMetrics[properties.feature] = { total: 0, passed: 0, failed: 0 };
+  }
+
+  private updateOwnerMetrics(result: TestResultDetail) {
+    const owners = result.owners && result.owners.length > 0 ? result.owners : ['Unowned'];
+    for (const owner of owners) {
+      if (!this.metrics.ownerMetrics[owner]) {
+        this.metrics.ownerMetrics[owner] = { total: 0, passed: 0, failed: 0, flaky: 0, skipped: 0 };
       }
-      this.metrics.featureMetrics[properties.feature].total++;
-      if (status === 'passed') {
-        this.metrics.featureMetrics[properties.feature].passed++;
+      const ownerMetrics = this.metrics.ownerMetrics[owner];
+      ownerMetrics.total++;
+      if (result.outcome === 'expected' || result.outcome === 'flaky') {
+        ownerMetrics.passed++;
+        if (result.outcome === 'flaky') ownerMetrics.flaky++;
+      } else if (result.outcome === 'unexpected') {
+        ownerMetrics.failed++;
       } else {
-        this.metrics.featureMetrics[properties.feature].failed++;
+        ownerMetrics.skipped++;
       }
     }
+  }
+
+  private loadCodeOwners(): CodeOwners | null {
+    if (this.options.codeowners === false) return null;
+    
+    try {
+      const file = typeof this.options.codeowners === 'string' ? this.options.codeowners : undefined;
+      return loadCodeOwners(process.cwd(), file);
+    } catch (error) {
+      console.log(`⚠️ Could not read CODEOWNERS: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private loadKnownIssues(): KnownIssues | null {
+    if (!this.options.knownIssues) return null;
+    
+    try {
+      return loadKnownIssues(this.options.knownIssues);
+    } catch (error) {
+      console.log(`⚠️ Could not read known issues: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private findKnownIssue(result: TestResultDetail): KnownIssue | undefined {
+    const issue = this.knownIssues ? matchKnownIssue(this.knownIssues, result) : undefined;
+    if (!issue) return undefined;
+    
+    // Tickets link through the same template as issue annotations
+    const url = issue.ticket ? resolveLinks([{ type: 'issue', description: issue.ticket }], this.options.links)[0]?.url : undefined;
+    return url ? { ...issue, url } : { ...issue };
+  }
+
+  /**
+   * Owners from `owner` annotations, falling back to the CODEOWNERS entry for the spec file
+   */
+  private resolveOwners(test: TestCase): string[] {
+    const annotated = (test.annotations || [])
+      .filter(annotation => annotation.type === 'owner' && annotation.description)
+      .map(annotation => annotation.description!);
+    if (annotated.length > 0) {
+      return Array.from(new Set(annotated));
+    }
     
-    if (properties.epic) {
-      if (!this.metrics.epicMetrics[properties.epic]) {
-        this.metrics.epicMetrics[properties.epic] = { total: 0, passed: 0, failed: 0 };
+    if (this.codeOwners && test.location?.file) {
+      return findOwners(this.codeOwners, test.location.file);
+    }
+    return [];
+  }
+
+  private extractAllureProperties(test: TestCase): Record<string, string> {
+    return resolveAnnotationValues(test.annotations || [], this.options.annotations, (dimension, value) => {
+      const key = `${dimension.type}:${value}`;
+      if (this.rejectedAnnotations.has(key)) return;
+      this.rejectedAnnotations.add(key);
+      console.log(`⚠️ Unknown ${dimension.type} "${value}" (allowed: ${dimension.values!.join(', ')}), using "${dimension.default ?? 'Unknown'}"`);
+    });
+  }
+
+  private updateAllureMetrics(properties: Record<string, string>, status: 'passed' | 'failed') {
+    for (const dimension of this.options.annotations) {
+      const value = properties[dimension.type];
+      if (!value) continue;
+      
+      const dimensionMetrics = this.metrics.annotationMetrics[dimension.type] = this.metrics.annotationMetrics[dimension.type] || {};
+      if (!dimensionMetrics[value]) {
+        dimensionMetrics[value] = { total: 0, passed: 0, failed: 0 };
       }
-      this.metrics.epicMetrics[properties.epic].total++;
+      dimensionMetrics[value].total++;
       if (status === 'passed') {
-        this.metrics.epicMetrics[properties.epic].passed++;
+        dimensionMetrics[value].passed++;
       } else {
-        this.metrics.epicMetrics[properties.epic].failed++;
+        dimensionMetrics[value].failed++;
       }
     }
+    
+    this.metrics.severityMetrics = this.metrics.annotationMetrics.severity || {};
+    this.metrics.featureMetrics = this.metrics.annotationMetrics.feature || {};
+    this.metrics.epicMetrics = this.metrics.annotationMetrics.epic || {};
   }
 
   private extractBrowserName(test: TestCase): string {
@@ -202,14 +431,23 @@ export default class EnhancedReporter implements Reporter {
     const filePath = test.location?.file || '';
     
     if (filePath) {
-      const projectRoot = process.cwd();
-      const relativePath = filePath.replace(projectRoot, '').replace(/\\/g, '/');
-      return relativePath.startsWith('/') ? relativePath.substring(1) : relativePath;
+      return this.toRelativePath(filePath);
     }
     
     return 'Unknown';
   }
 
+  private toRelativePath(filePath: string): string {
+    const projectRoot = process.cwd();
+    const relativePath = filePath.replace(projectRoot, '').replace(/\\/g, '/');
+    return relativePath.startsWith('/') ? relativePath.substring(1) : relativePath;
+  }
+
+  private joinOutput(chunks: Array<string | Buffer>): string | undefined {
+    if (!chunks || chunks.length === 0) return undefined;
+    return chunks.map(chunk => (typeof chunk === 'string' ? chunk : chunk.toString('utf8'))).join('');
+  }
+
   private extractAttachments(result: TestResult): any[] {
     const attachments: any[] = [];
     
@@ -230,65 +468,245 @@ export default class EnhancedReporter implements Reporter {
   async onEnd(result: FullResult) {
     this.metrics.endTime = new Date();
     
-    this.metrics.passRate = this.metrics.totalTests > 0 ? (this.metrics.passed / this.metrics.totalTests) * 100 : 0;
-    this.metrics.failRate = this.metrics.totalTests > 0 ? (this.metrics.failed / this.metrics.totalTests) * 100 : 0;
-    this.metrics.avgDuration = this.metrics.totalTests > 0 ? this.metrics.duration / this.metrics.totalTests : 0;
+    this.finalizeMetrics(result);
+    
+    // Before the summary, which lists the changes since the previous run
+    await this.updateTestHistory();
+    this.printSummary();
+    await this.generateReports();
+  }
+
+  /**
+   * Combine partial reports written by sharded runs into one report, with a single trend entry for the whole run
+   */
+  static async mergeReports(inputs: string[], options: EnhancedReporterOptions = {}): Promise<void> {
+    const files = await findPartialReports(inputs);
+    if (files.length === 0) {
+      throw new Error(`No partial reports found in: ${inputs.join(', ')}`);
+    }
+    
+    console.log(`🔀 Merging ${files.length} partial report(s)...`);
+    const partials = await loadPartialReports(files);
+    
+    // The merged report is never itself a partial; shards share the annotation schema they ran with
+    const reporter = new EnhancedReporter({
+      ...options,
+      annotations: options.annotations || partials.find(partial => partial.annotations)?.annotations,
+      shardMode: 'never'
+    });
+    await reporter.generateFromPartials(partials);
+  }
+
+  private async generateFromPartials(partials: PartialReport[]) {
+    this.testResults = partials.flatMap(partial => partial.testResults);
+    this.runErrors = partials.flatMap(partial => partial.runErrors || []);
+    this.errorCategoryColors = Object.assign({}, ...partials.map(partial => partial.errorCategoryColors || {}));
+    this.globalTimeout = partials[0].globalTimeout;
+    this.maxFailures = partials[0].maxFailures;
+    
+    // Shards run side by side, so the run spans from the first start to the last end
+    this.metrics.startTime = new Date(Math.min(...partials.map(partial => partial.startTime.getTime())));
+    this.metrics.endTime = new Date(Math.max(...partials.map(partial => partial.endTime.getTime())));
+    this.metrics.workers = partials.reduce((sum, partial) => sum + partial.workers, 0);
+    this.metrics.plannedTests = partials.reduce((sum, partial) => sum + partial.plannedTests, 0);
+    
+    this.finalizeMetrics({
+      status: mergeRunStatus(partials.map(partial => partial.runStatus)),
+      startTime: this.metrics.startTime,
+      duration: this.metrics.endTime.getTime() - this.metrics.startTime.getTime()
+    });
     
+    await this.updateTestHistory();
     this.printSummary();
     await this.generateReports();
   }
 
+  private finalizeMetrics(result: FullResult) {
+    this.calculateMetrics();
+    this.recordRunResult(result);
+    
+    // Known failures can be left out entirely, as if those tests had not run
+    const excludedFailures = this.options.excludeKnownIssuesFromPassRate ? this.metrics.knownFailures || 0 : 0;
+    const rateBase = this.metrics.totalTests - excludedFailures;
+    this.metrics.passRate = rateBase > 0 ? (this.metrics.passed / rateBase) * 100 : 0;
+    this.metrics.failRate = rateBase > 0 ? ((this.metrics.failed - excludedFailures) / rateBase) * 100 : 0;
+    this.metrics.avgDuration = this.metrics.totalTests > 0 ? this.metrics.duration / this.metrics.totalTests : 0;
+  }
+
+  private recordRunResult(result: FullResult) {
+    this.metrics.runStatus = result.status;
+    // FullResult.duration only exists in newer Playwright versions
+    this.metrics.wallClockDuration = result.duration ?? this.metrics.endTime.getTime() - this.metrics.startTime.getTime();
+    this.metrics.notRunTests = Math.max(0, (this.metrics.plannedTests ?? 0) - this.metrics.totalTests);
+    this.calculateParallelism();
+    this.metrics.exitReason = this.describeExitReason(result.status);
+  }
+
+  private calculateParallelism() {
+    const wallClock = this.metrics.wallClockDuration || 0;
+    if (wallClock <= 0) return;
+    
+    this.metrics.parallelism = this.metrics.duration / wallClock;
+    
+    // Runs with fewer attempts than workers could never keep every worker busy
+    const attemptCount = this.testResults.reduce((sum, result) => sum + result.attempts.length, 0);
+    const usableWorkers = Math.min(this.metrics.workers || 1, Math.max(attemptCount, 1));
+    this.metrics.parallelEfficiency = Math.min(100, (this.metrics.parallelism / usableWorkers) * 100);
+  }
+
+  private describeExitReason(status: RunStatus): string {
+    const notRun = this.metrics.notRunTests ? `, ${this.metrics.notRunTests} of ${this.metrics.plannedTests} tests did not run` : '';
+    
+    switch (status) {
+      case 'timedout':
+        return `Global timeout of ${(this.globalTimeout / 1000).toFixed(0)}s reached${notRun}`;
+      case 'interrupted':
+        return `Interrupted before completion${notRun}`;
+      case 'failed':
+        if (this.maxFailures > 0 && this.metrics.failed >= this.maxFailures) {
+          return `Stopped after reaching maxFailures (${this.maxFailures})${notRun}`;
+        }
+        if (this.runErrors.length > 0) {
+          return `Errors occurred outside of tests${notRun}`;
+        }
+        return `Completed with failures${notRun}`;
+      default:
+        return `All tests completed${notRun}`;
+    }
+  }
+
+  async onExit() {
+    if (!this.shouldOpenReport()) return;
+    
+    try {
+      await showReport(this.options.outputDir, {
+        indexFile: this.options.outputFile,
+        host: this.options.host,
+        port: this.options.port
+      });
+    } catch (error) {
+      console.log(`⚠️ Could not serve the enhanced report: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private shouldOpenReport(): boolean {
+    // Like Playwright's HTML reporter, never block a CI job on a local server
+    const runStatus = this.metrics.runStatus;
+    if (process.env.CI || !runStatus) return false;
+    
+    const openReport = this.options.openReport;
+    const mode = openReport === true ? 'always' : openReport === false ? 'never' : openReport;
+    
+    return mode === 'always' || (mode === 'on-failure' && runStatus !== 'passed');
+  }
+
   private printSummary() {
-    console.log('\\n📊 Enhanced Test Execution Summary:');
+    if (this.runErrors.length > 0) {
+      console.log(`\n🚨 ${this.runErrors.length} error(s) occurred outside of tests; results may be incomplete:`);
+      this.runErrors.forEach(error => {
+        const location = error.location ? ` (${error.location.file}:${error.location.line})` : '';
+        console.log(`   ❗ ${error.message.replace(/\x1b\[[0-9;]*m/g, '').split('\n')[0]}${location}`);
+      });
+    }
+    
+    console.log('\n📊 Enhanced Test Execution Summary:');
     console.log(`   Total Tests: ${this.metrics.totalTests}`);
     console.log(`   ✅ Passed: ${this.metrics.passed} (${this.metrics.passRate.toFixed(1)}%)`);
     console.log(`   ❌ Failed: ${this.metrics.failed} (${this.metrics.failRate.toFixed(1)}%)`);
+    if (this.metrics.knownFailures) {
+      console.log(`   📌 Known Issues: ${this.metrics.knownFailures}, New Failures: ${this.metrics.failed - this.metrics.knownFailures}`);
+      this.testResults.filter(result => result.knownIssue).forEach(result => {
+        console.log(`      - ${result.test}: ${[result.knownIssue!.ticket, result.knownIssue!.reason].filter(Boolean).join(' - ') || 'known issue'}`);
+      });
+    }
     console.log(`   ⏭️  Skipped: ${this.metrics.skipped}`);
     if (this.metrics.flaky > 0) {
       console.log(`   ⚠️  Flaky: ${this.metrics.flaky} (passed after retry)`);
     }
-    console.log(`   ⏱️  Total Duration: ${(this.metrics.duration / 1000).toFixed(2)}s`);
+    console.log(`   🏁 Run Status: ${(this.metrics.runStatus || 'unknown').toUpperCase()} (${this.metrics.exitReason})`);
+    console.log(`   ⏱️  Wall-clock Duration: ${((this.metrics.wallClockDuration || 0) / 1000).toFixed(2)}s`);
+    console.log(`   ⏱️  Cumulative Test Time: ${(this.metrics.duration / 1000).toFixed(2)}s`);
+    if (this.metrics.parallelEfficiency !== undefined) {
+      console.log(`   ⚙️  Parallel Efficiency: ${this.metrics.parallelEfficiency.toFixed(1)}% (${this.metrics.parallelism?.toFixed(1)}x across ${this.metrics.workers} workers)`);
+    }
     console.log(`   📈 Average Duration: ${this.metrics.avgDuration.toFixed(0)}ms`);
+    
+    const comparison = this.metrics.runComparison;
+    if (comparison) {
+      console.log(`\n🔄 Changes since last run (${comparison.previousRun}):`);
+      (Object.keys(RUN_CHANGE_ICONS) as RunChange[]).forEach(change => {
+        console.log(`   ${RUN_CHANGE_ICONS[change]} ${RUN_CHANGE_LABELS[change]}: ${comparison.counts[change]}`);
+        // Regressions and fixes are what to look at first; the other buckets are only counted
+        if (change === 'newFailure' || change === 'fixed') {
+          comparison.changes.filter(entry => entry.change === change).forEach(entry => console.log(`      - ${entry.test}`));
+        }
+      });
+    }
 
-    console.log('\\n📋 Test Coverage by Severity:');
-    Object.entries(this.metrics.severityMetrics).forEach(([severity, metrics]) => {
-      const passRate = ((metrics.passed / metrics.total) * 100).toFixed(1);
-      console.log(`   ${severity.toUpperCase()}: ${metrics.total} tests (${passRate}% pass rate)`);
-    });
-
-    console.log('\\n🎯 Test Coverage by Feature:');
-    Object.entries(this.metrics.featureMetrics).forEach(([feature, metrics]) => {
-      const passRate = ((metrics.passed / metrics.total) * 100).toFixed(1);
-      console.log(`   ${feature}: ${metrics.total} tests (${passRate}% pass rate)`);
+    this.options.annotations.forEach(dimension => {
+      console.log(`\n📋 Test Coverage by ${getDimensionLabel(dimension)}:`);
+      Object.entries(this.metrics.annotationMetrics[dimension.type] || {}).forEach(([value, metrics]) => {
+        const passRate = ((metrics.passed / metrics.total) * 100).toFixed(1);
+        console.log(`   ${value}: ${metrics.total} tests (${passRate}% pass rate)`);
+      });
     });
     
+    if (Object.keys(this.metrics.tagMetrics).length > 0) {
+      console.log('\n🏷️  Test Coverage by Tag:');
+      Object.entries(this.metrics.tagMetrics).forEach(([tag, metrics]) => {
+        console.log(`   ${tag}: ${metrics.total} tests (${metrics.passRate.toFixed(1)}% pass rate)`);
+      });
+    }
+    
+    const failingOwners = Object.entries(this.metrics.ownerMetrics).filter(([, metrics]) => metrics.failed > 0);
+    if (hasOwners(this.metrics.ownerMetrics) && failingOwners.length > 0) {
+      console.log('\n👥 Failures by Owner:');
+      failingOwners.forEach(([owner, metrics]) => {
+        console.log(`   ${owner}: ${metrics.failed} failed of ${metrics.total} tests`);
+      });
+    }
+    
     if (this.metrics.slowestTest) {
       console.log(`   🐌 Slowest Test: ${this.metrics.slowestTest.name} (${this.metrics.slowestTest.duration}ms)`);
     }
     if (this.metrics.fastestTest) {
       console.log(`   🚀 Fastest Test: ${this.metrics.fastestTest.name} (${this.metrics.fastestTest.duration}ms)`);
     }
+    
+    if (this.metrics.slowerThanUsual) {
+      console.log(`\n🐢 Slower than usual: ${this.metrics.slowerThanUsual}`);
+      this.testResults.filter(result => result.durationRegression).forEach(result => {
+        const regression = result.durationRegression!;
+        console.log(`   - ${result.test}: ${result.duration}ms (median ${regression.median}ms over ${regression.runs} runs, ${regression.ratio.toFixed(1)}x)`);
+      });
+    }
   }
 
   private async generateReports() {
     await fs.ensureDir(this.options.outputDir);
     
+    // Both reports point at the full logs, so write those first
+    await this.saveConsoleLogs();
     await this.generateDetailedReport();
     await this.generateEnhancedHTMLReport();
     
-    if (this.options.includeTrends) {
+    if (this.writesPartialReport()) {
+      await this.generatePartialReport();
+    } else if (this.options.includeTrends) {
+      // Partial runs leave the trend entry to merge-reports, so a sharded run is recorded once
       await this.generateTrendsReport();
     }
     
-    console.log('\\n🎯 All enhanced reports generated successfully!');
+    console.log('\n🎯 All enhanced reports generated successfully!');
   }
 
   private async generateDetailedReport() {
     const reportData = {
       summary: this.metrics,
+      runErrors: this.runErrors,
       testResults: this.testResults,
       generatedAt: new Date().toISOString(),
-      options: this.options
+      options: this.getSerializableOptions()
     };
 
     const reportPath = path.join(this.options.outputDir, 'detailed-report.json');
@@ -296,6 +714,54 @@ export default class EnhancedReporter implements Reporter {
     console.log(`📄 Detailed JSON report saved to: ${reportPath}`);
   }
 
+  /**
+   * Options as JSON can hold them: regexes become their literal, functions a placeholder, so the saved
+   * config still shows which rules and hooks ran
+   */
+  private getSerializableOptions() {
+    const placeholder = (fn: unknown) => (fn ? '[function]' : undefined);
+    return {
+      ...this.options,
+      errorCategories: this.options.errorCategories.map(rule => ({
+        ...rule,
+        match: rule.match instanceof RegExp ? String(rule.match) : rule.match,
+        predicate: placeholder(rule.predicate)
+      })),
+      errorClassifier: placeholder(this.options.errorClassifier)
+    };
+  }
+
+  private writesPartialReport(): boolean {
+    return this.options.shardMode === 'always' || (this.options.shardMode === 'auto' && this.shard !== null);
+  }
+
+  private async generatePartialReport() {
+    const partial: PartialReport = {
+      version: 1,
+      shard: this.shard,
+      startTime: this.metrics.startTime,
+      endTime: this.metrics.endTime,
+      wallClockDuration: this.metrics.wallClockDuration || 0,
+      runStatus: this.metrics.runStatus || 'passed',
+      workers: this.metrics.workers || 1,
+      plannedTests: this.metrics.plannedTests ?? this.metrics.totalTests,
+      globalTimeout: this.globalTimeout,
+      maxFailures: this.maxFailures,
+      runErrors: this.runErrors,
+      annotations: this.options.annotations,
+      errorCategoryColors: this.errorCategoryColors,
+      testResults: this.testResults
+    };
+    
+    // Attachments are on disk by now; keep the partial small and its paths relative to outputDir
+    const reportPath = path.join(this.options.outputDir, partialReportFileName(this.shard));
+    await fs.writeJSON(reportPath, partial, {
+      spaces: 2,
+      replacer: (key: string, value: unknown) => (key === 'body' ? undefined : value)
+    });
+    console.log(`🧩 Partial report for merging saved to: ${reportPath}`);
+  }
+
   private async generateEnhancedHTMLReport() {
     // Save attachments to disk
     await this.saveAttachments();
@@ -307,7 +773,12 @@ export default class EnhancedReporter implements Reporter {
       title: this.options.title,
       includeCharts: this.options.includeCharts,
       theme: this.options.theme,
-      trendsData
+      trendsData,
+      offline: this.options.offline,
+      consoleOutputLimit: this.options.consoleOutputLimit,
+      runErrors: this.runErrors,
+      annotations: this.options.annotations,
+      testHistory: this.testHistory
     });
     
     const reportPath = path.join(this.options.outputDir, this.options.outputFile);
@@ -332,15 +803,17 @@ export default class EnhancedReporter implements Reporter {
     await fs.ensureDir(attachmentsDir);
     
     for (const result of this.testResults) {
-      if (result.attachments && result.attachments.length > 0) {
-        for (let i = 0; i < result.attachments.length; i++) {
-          const attachment = result.attachments[i];
+      for (const attempt of result.attempts) {
+        if (!attempt.attachments || attempt.attachments.length === 0) continue;
+        
+        for (let i = 0; i < attempt.attachments.length; i++) {
+          const attachment = attempt.attachments[i];
           
-          // Generate safe filename
-          const testNameSafe = result.test.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+          // Generate safe filename; the test id keeps same-titled tests from colliding
+          const testNameSafe = this.getSafeFilePrefix(result);
           const timestamp = Date.now();
           const extension = this.getFileExtension(attachment.contentType, attachment.name);
-          const filename = `${testNameSafe}_${i}_${timestamp}${extension}`;
+          const filename = `${testNameSafe}_r${attempt.retry}_${i}_${timestamp}${extension}`;
           const filePath = path.join(attachmentsDir, filename);
           
           try {
@@ -362,6 +835,41 @@ export default class EnhancedReporter implements Reporter {
     }
   }
 
+  /**
+   * Write the full console output of attempts too large to embed, so the report can link to it
+   */
+  private async saveConsoleLogs() {
+    const attachmentsDir = path.join(this.options.outputDir, 'attachments');
+    
+    for (const result of this.testResults) {
+      for (const attempt of result.attempts) {
+        const outputSize = Math.max(attempt.stdout?.length || 0, attempt.stderr?.length || 0);
+        if (outputSize <= this.options.consoleOutputLimit) continue;
+        
+        const filename = `${this.getSafeFilePrefix(result)}_r${attempt.retry}_console_${Date.now()}.log`;
+        const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+        const content = [
+          attempt.stdout ? `--- stdout ---\n${stripAnsi(attempt.stdout)}` : '',
+          attempt.stderr ? `--- stderr ---\n${stripAnsi(attempt.stderr)}` : ''
+        ].filter(Boolean).join('\n');
+        
+        try {
+          await fs.ensureDir(attachmentsDir);
+          await fs.writeFile(path.join(attachmentsDir, filename), content);
+          attempt.consoleLogPath = `attachments/${filename}`;
+        } catch (error) {
+          console.warn(`⚠️ Failed to save console log for ${result.test}:`, error);
+        }
+      }
+    }
+  }
+
+  private getSafeFilePrefix(result: TestResultDetail): string {
+    const testNameSafe = result.test.replace(/[^a-z0-9]/gi, '_').toLowerCase().slice(0, 60);
+    const testIdSafe = (result.testId || '').replace(/[^a-z0-9]/gi, '');
+    return testIdSafe ? `${testNameSafe}_${testIdSafe}` : testNameSafe;
+  }
+
   private getFileExtension(contentType: string, name: string): string {
     // Check name first
     if (name) {
@@ -389,25 +897,87 @@ export default class EnhancedReporter implements Reporter {
     const trendsPath = path.join(this.options.outputDir, 'trends.json');
     const currentTrend = {
       timestamp: this.metrics.endTime.toISOString(),
+      status: this.metrics.runStatus,
       totalTests: this.metrics.totalTests,
       passed: this.metrics.passed,
       failed: this.metrics.failed,
       passRate: this.metrics.passRate,
+      // Kept for older trend files; same value as cumulativeDuration
       duration: this.metrics.duration,
+      wallClockDuration: this.metrics.wallClockDuration,
+      cumulativeDuration: this.metrics.duration,
+      parallelEfficiency: this.metrics.parallelEfficiency,
       avgDuration: this.metrics.avgDuration
     };
 
-    const trends = await this.loadExistingTrends(trendsPath);
-    trends.push(currentTrend);
-    
-    if (trends.length > 30) {
-      trends.splice(0, trends.length - 30);
-    }
+    // A trend entry with this run's end time comes from merging the same partials before; replace it
+    const trends = applyRetention(
+      (await this.loadExistingTrends(trendsPath)).filter(trend => trend.timestamp !== currentTrend.timestamp).concat(currentTrend),
+      trend => trend.timestamp,
+      this.options.historyRetention
+    );
 
     await fs.writeJSON(trendsPath, trends, { spaces: 2 });
     console.log(`📈 Trends report updated: ${trendsPath}`);
   }
 
+  /**
+   * Append this run's results to the test history, compare them with the previous run, score every test's
+   * flakiness from its recent runs and flag tests slower than their usual duration
+   */
+  private async updateTestHistory() {
+    // Like trends, history is recorded once per run, so shards leave it to merge-reports
+    if (this.writesPartialReport() || !this.options.includeTrends) return;
+    
+    await fs.ensureDir(this.options.outputDir);
+    const historyPath = path.join(this.options.outputDir, TEST_HISTORY_FILE);
+    const timestamp = this.metrics.endTime.toISOString();
+    const runEntries: TestHistoryEntry[] = this.testResults.map(result => ({
+      timestamp,
+      testId: result.testId,
+      test: result.test,
+      outcome: result.outcome,
+      status: result.status,
+      duration: result.duration,
+      attempts: result.attempts.length,
+      errorSignature: result.error ? getErrorSignature(result.error, result.errorStack, result.specFile) : undefined
+    }));
+    
+    let history: TestHistoryEntry[] = runEntries;
+    try {
+      const storedEntries = await readTestHistory(historyPath);
+      // Merging the same partials again ends at the same time; the run is recorded once
+      const alreadyRecorded = storedEntries.some(entry => entry.timestamp === timestamp);
+      const previousRun = getPreviousRun(storedEntries, timestamp);
+      if (previousRun.length > 0) {
+        this.metrics.runComparison = { previousRun: previousRun[0].timestamp, ...compareRuns(this.testResults, previousRun) };
+      }
+      
+      const allEntries = alreadyRecorded ? storedEntries : storedEntries.concat(runEntries);
+      history = applyRetention(allEntries, entry => entry.timestamp, this.options.historyRetention);
+      // Appending is enough until old runs fall out of retention
+      if (history.length < allEntries.length) {
+        await writeTestHistory(historyPath, history);
+      } else if (!alreadyRecorded) {
+        await appendTestHistory(historyPath, runEntries);
+      }
+    } catch (error) {
+      console.log(`⚠️ Could not update test history: ${error instanceof Error ? error.message : error}`);
+    }
+    
+    this.testHistory = groupHistoryByTest(history);
+    for (const result of this.testResults) {
+      const entries = this.testHistory.get(result.testId) || [];
+      result.flakiness = calculateFlakiness(entries.slice(-this.options.flakinessWindow));
+      result.durationRegression = detectDurationRegression(
+        entries.filter(entry => entry.timestamp !== timestamp),
+        result,
+        this.options.durationRegression
+      );
+    }
+    this.metrics.slowerThanUsual = this.testResults.filter(result => result.durationRegression).length;
+  }
+
   private async loadExistingTrends(trendsPath: string): Promise<any[]> {
     try {
       if (await fs.pathExists(trendsPath)) {
@@ -419,19 +989,27 @@ export default class EnhancedReporter implements Reporter {
     return [];
   }
 
-  private categorizeError(errorMessage: string): string {
-    if (errorMessage.includes('timeout') || errorMessage.includes('Timeout')) {
-      return 'Timeout';
-    } else if (errorMessage.includes('selector') || errorMessage.includes('locator')) {
-      return 'Selector/Locator';
-    } else if (errorMessage.includes('network') || errorMessage.includes('fetch')) {
-      return 'Network';
-    } else if (errorMessage.includes('assertion') || errorMessage.includes('expected')) {
-      return 'Assertion';
-    } else if (errorMessage.includes('navigation') || errorMessage.includes('page')) {
-      return 'Navigation';
-    } else {
-      return 'Other';
+  private categorizeError(result: TestResultDetail): string {
+    const error = {
+      message: result.error || '',
+      stack: result.errorStack,
+      status: result.status,
+      test: result.test,
+      specFile: result.specFile
+    };
+    
+    let categorized: { category: string; color?: string };
+    try {
+      categorized = categorizeError(error, this.options.errorCategories, this.options.errorClassifier);
+    } catch (classifierError) {
+      // A broken rule or classifier should not cost us the report
+      console.log(`⚠️ Error categorization failed for "${result.test}": ${classifierError instanceof Error ? classifierError.message : classifierError}`);
+      categorized = { category: FALLBACK_ERROR_CATEGORY };
+    }
+    
+    if (categorized.color) {
+      this.errorCategoryColors[categorized.category] = categorized.color;
     }
+    return categorized.category;
   }
 }
@@ -0,0 +1,56 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { KnownIssue, TestResultDetail } from './types';
+
+interface CompiledKnownIssue {
+  issue: KnownIssue;
+  title?: RegExp;
+  error?: RegExp;
+}
+
+export interface KnownIssues {
+  file: string;
+  issues: CompiledKnownIssue[];
+}
+
+/**
+ * Read a known-issues file: an array of entries, or an object with an `issues` array
+ */
+export function loadKnownIssues(file: string): KnownIssues {
+  const filePath = path.resolve(file);
+  const content = fs.readJSONSync(filePath);
+  const issues: KnownIssue[] = Array.isArray(content) ? content : content?.issues;
+  if (!Array.isArray(issues)) {
+    throw new Error(`Expected an array of known issues in ${filePath}`);
+  }
+
+  return {
+    file: filePath,
+    issues: issues.map((issue, index) => {
+      if (!issue.testId && !issue.title && !issue.error) {
+        throw new Error(`Known issue #${index + 1} in ${filePath} needs a testId, title or error to match on`);
+      }
+      return {
+        issue,
+        title: issue.title ? new RegExp(issue.title) : undefined,
+        error: issue.error ? new RegExp(issue.error) : undefined
+      };
+    })
+  };
+}
+
+/**
+ * First entry matching a failed test; every condition an entry sets has to match
+ */
+export function matchKnownIssue(knownIssues: KnownIssues, result: TestResultDetail): KnownIssue | undefined {
+  // Titles are matched against the full path, e.g. "chromium › cart.spec.ts › Checkout › pays by card"
+  const fullTitle = (result.titlePath && result.titlePath.length > 0 ? result.titlePath : [result.test]).join(' › ');
+  const error = (result.error || '').replace(/\x1b\[[0-9;]*m/g, '');
+
+  const match = knownIssues.issues.find(candidate =>
+    (!candidate.issue.testId || candidate.issue.testId === result.testId) &&
+    (!candidate.title || candidate.title.test(fullTitle)) &&
+    (!candidate.error || candidate.error.test(error))
+  );
+  return match?.issue;
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PartialReport, RunStatus, TestAttachment, TestStepDetail } from './types';
+
+const PARTIAL_REPORT_PATTERN = /^partial-report.*\.json$/;
+
+// Worst status wins when shards disagree
+const STATUS_SEVERITY: RunStatus[] = ['passed', 'failed', 'timedout', 'interrupted'];
+
+export function partialReportFileName(shard: { current: number; total: number } | null): string {
+  return shard ? `partial-report-shard-${shard.current}-of-${shard.total}.json` : 'partial-report.json';
+}
+
+/**
+ * Find partial report files in the given files or directories (searched recursively)
+ */
+export async function findPartialReports(inputs: string[]): Promise<string[]> {
+  const found: string[] = [];
+
+  const visit = async (target: string) => {
+    const stat = await fs.stat(target).catch(() => undefined);
+    if (!stat) {
+      throw new Error(`Input not found: ${target}`);
+    }
+    if (stat.isFile()) {
+      found.push(target);
+      return;
+    }
+    for (const entry of await fs.readdir(target)) {
+      const entryPath = path.join(target, entry);
+      const entryStat = await fs.stat(entryPath);
+      if (entryStat.isDirectory()) {
+        await visit(entryPath);
+      } else if (PARTIAL_REPORT_PATTERN.test(entry)) {
+        found.push(entryPath);
+      }
+    }
+  };
+
+  for (const input of inputs) {
+    await visit(path.resolve(input));
+  }
+
+  return found.sort();
+}
+
+function reviveSteps(steps: TestStepDetail[] | undefined) {
+  steps?.forEach(step => {
+    step.startTime = new Date(step.startTime);
+    reviveSteps(step.steps);
+  });
+}
+
+/**
+ * Load partial reports, restoring dates and resolving attachment paths against each partial's directory
+ */
+export async function loadPartialReports(files: string[]): Promise<PartialReport[]> {
+  const partials: PartialReport[] = [];
+
+  for (const file of files) {
+    const partial: PartialReport = await fs.readJSON(file);
+    if (partial.version !== 1 || !Array.isArray(partial.testResults)) {
+      throw new Error(`Not a partial enhanced report: ${file}`);
+    }
+
+    const baseDir = path.dirname(file);
+    const resolveAttachment = (attachment: TestAttachment) => {
+      if (attachment.path && !path.isAbsolute(attachment.path)) {
+        attachment.path = path.resolve(baseDir, attachment.path);
+      }
+    };
+
+    partial.startTime = new Date(partial.startTime);
+    partial.endTime = new Date(partial.endTime);
+    partial.runErrors?.forEach(error => {
+      error.timestamp = new Date(error.timestamp);
+    });
+    for (const result of partial.testResults) {
+      for (const attempt of result.attempts) {
+        attempt.startTime = new Date(attempt.startTime);
+        reviveSteps(attempt.steps);
+        // Log files are regenerated from the stored output when the merged report is written
+        delete attempt.consoleLogPath;
+        attempt.attachments?.forEach(resolveAttachment);
+      }
+      // The record mirrors the last attempt, so point it at the same attachment and step objects again
+      result.attachments = result.attempts[result.attempts.length - 1]?.attachments;
+      result.steps = result.attempts[result.attempts.length - 1]?.steps;
+    }
+
+    partials.push(partial);
+  }
+
+  return partials;
+}
+
+export function mergeRunStatus(statuses: RunStatus[]): RunStatus {
+  return statuses.reduce<RunStatus>(
+    (worst, status) => (STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(worst) ? status : worst),
+    'passed'
+  );
+}
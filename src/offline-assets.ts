@@ -0,0 +1,45 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+/**
+ * Reads Chart.js and Font Awesome from the installed packages so the report
+ * can be opened without network access.
+ */
+export class OfflineAssets {
+  private static chartScript?: string;
+  private static iconStyles?: string;
+
+  /**
+   * Chart.js UMD bundle, safe to embed inside a <script> tag
+   */
+  static getChartScript(): string {
+    if (this.chartScript === undefined) {
+      // chart.js only exports its entry points, so locate the UMD bundle next to the CommonJS one
+      const chartDir = path.dirname(require.resolve('chart.js'));
+      const script = fs.readFileSync(path.join(chartDir, 'chart.umd.min.js'), 'utf8');
+      this.chartScript = script.replace(/<\/script/gi, '<\\/script');
+    }
+    return this.chartScript;
+  }
+
+  /**
+   * Font Awesome solid icon styles with the webfont inlined as a data URI
+   */
+  static getIconStyles(): string {
+    if (this.iconStyles === undefined) {
+      const fontAwesomeDir = path.dirname(require.resolve('@fortawesome/fontawesome-free/package.json'));
+      const css = ['fontawesome.min.css', 'solid.min.css']
+        .map(file => fs.readFileSync(path.join(fontAwesomeDir, 'css', file), 'utf8'))
+        .join('\n');
+      
+      this.iconStyles = css
+        // Every browser that runs the report supports woff2, so drop the larger ttf fallback
+        .replace(/,\s*url\(\.\.\/webfonts\/[^)]+\.ttf\)\s*format\("truetype"\)/g, '')
+        .replace(/url\(\.\.\/webfonts\/([^)]+\.woff2)\)/g, (_match, file: string) => {
+          const font = fs.readFileSync(path.join(fontAwesomeDir, 'webfonts', file));
+          return `url(data:font/woff2;base64,${font.toString('base64')})`;
+        });
+    }
+    return this.iconStyles;
+  }
+}
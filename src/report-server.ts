@@ -0,0 +1,182 @@
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { AddressInfo } from 'net';
+
+export interface ReportServerOptions {
+  host?: string;
+  port?: number;
+  indexFile?: string;
+}
+
+const DEFAULT_PORT = 9323;
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.log': 'text/plain; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.zip': 'application/zip'
+};
+
+/**
+ * Minimal static file server over a report directory, so attachments and
+ * videos load without the restrictions browsers put on file:// pages.
+ */
+export class ReportServer {
+  private server?: http.Server;
+  private readonly rootDir: string;
+  private readonly options: ReportServerOptions;
+
+  constructor(rootDir: string, options: ReportServerOptions = {}) {
+    this.rootDir = path.resolve(rootDir);
+    this.options = options;
+  }
+
+  /**
+   * Start listening and return the URL of the report
+   */
+  async start(): Promise<string> {
+    const host = this.options.host || 'localhost';
+    this.server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch(() => {
+        if (!response.headersSent) response.writeHead(500);
+        response.end();
+      });
+    });
+
+    try {
+      await this.listen(host, this.options.port ?? DEFAULT_PORT);
+    } catch (error) {
+      // Only fall back to a random port when the user did not ask for a specific one
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE' || this.options.port !== undefined) throw error;
+      await this.listen(host, 0);
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    const urlHost = host === '0.0.0.0' ? 'localhost' : host;
+    return `http://${urlHost}:${port}/${encodeURIComponent(this.options.indexFile || 'enhanced-report.html')}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  private listen(host: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      this.server!.once('error', onError);
+      this.server!.listen(port, host, () => {
+        this.server!.off('error', onError);
+        resolve();
+      });
+    });
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405);
+      response.end();
+      return;
+    }
+
+    let relativePath = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname);
+    if (relativePath === '/') {
+      relativePath = '/' + (this.options.indexFile || 'enhanced-report.html');
+    }
+
+    // Never serve anything outside the report directory
+    const filePath = path.join(this.rootDir, path.normalize(relativePath));
+    if (filePath !== this.rootDir && !filePath.startsWith(this.rootDir + path.sep)) {
+      response.writeHead(403);
+      response.end();
+      return;
+    }
+
+    const stat = await fs.stat(filePath).catch(() => undefined);
+    if (!stat || !stat.isFile()) {
+      response.writeHead(404);
+      response.end();
+      return;
+    }
+
+    const headers: http.OutgoingHttpHeaders = {
+      'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'no-cache'
+    };
+
+    // Browsers request videos in ranges and refuse to seek without support for it
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.range || '');
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? parseInt(range[1], 10) : Math.max(0, stat.size - parseInt(range[2], 10));
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), stat.size - 1) : stat.size - 1;
+      if (start > end || start >= stat.size) {
+        response.writeHead(416, { 'Content-Range': `bytes */${stat.size}` });
+        response.end();
+        return;
+      }
+      response.writeHead(206, {
+        ...headers,
+        'Content-Range': `bytes ${start}-${end}/${stat.size}`,
+        'Content-Length': end - start + 1
+      });
+      if (request.method === 'HEAD') return void response.end();
+      fs.createReadStream(filePath, { start, end }).pipe(response);
+      return;
+    }
+
+    response.writeHead(200, { ...headers, 'Content-Length': stat.size });
+    if (request.method === 'HEAD') return void response.end();
+    fs.createReadStream(filePath).pipe(response);
+  }
+}
+
+/**
+ * Open a URL in the default browser without waiting for it to close
+ */
+export function openInBrowser(url: string): void {
+  const [command, args] = process.platform === 'darwin'
+    ? ['open', [url]]
+    : process.platform === 'win32'
+      ? ['cmd', ['/c', 'start', '', url]]
+      : ['xdg-open', [url]];
+
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.on('error', () => console.log(`⚠️ Could not open a browser, visit ${url} manually`));
+    child.unref();
+  } catch (error) {
+    console.log(`⚠️ Could not open a browser, visit ${url} manually`);
+  }
+}
+
+/**
+ * Serve a report directory, open it in the browser and keep serving until the process is stopped
+ */
+export async function showReport(reportDir: string, options: ReportServerOptions = {}): Promise<void> {
+  const indexFile = options.indexFile || 'enhanced-report.html';
+  if (!(await fs.pathExists(path.join(reportDir, indexFile)))) {
+    throw new Error(`No report found at "${path.join(reportDir, indexFile)}"`);
+  }
+
+  const server = new ReportServer(reportDir, { ...options, indexFile });
+  const url = await server.start();
+  console.log(`\n🌐 Serving enhanced report at ${url}. Press Ctrl+C to quit.`);
+  openInBrowser(url);
+
+  await new Promise<void>(() => {});
+}
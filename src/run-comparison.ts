@@ -0,0 +1,71 @@
+import { RunChange, RunComparison, RunComparisonEntry, TestHistoryEntry, TestOutcome } from './types';
+
+type ComparedTest = Pick<TestHistoryEntry, 'testId' | 'test' | 'outcome'>;
+
+export const RUN_CHANGE_LABELS: Record<RunChange, string> = {
+  newFailure: 'New failures',
+  stillFailing: 'Still failing',
+  fixed: 'Fixed',
+  added: 'Added',
+  removed: 'Removed',
+  unchanged: 'Unchanged'
+};
+
+export const RUN_CHANGE_ICONS: Record<RunChange, string> = {
+  newFailure: '🆕',
+  stillFailing: '🔁',
+  fixed: '✅',
+  added: '➕',
+  removed: '➖',
+  unchanged: '⏸️'
+};
+
+/**
+ * Only a failing test that passes now counts as fixed; one that is skipped now is unchanged
+ */
+export function classifyChange(outcome: TestOutcome | undefined, previousOutcome: TestOutcome | undefined): RunChange {
+  if (!previousOutcome) return 'added';
+  if (!outcome) return 'removed';
+
+  const failing = outcome === 'unexpected';
+  const wasFailing = previousOutcome === 'unexpected';
+  if (failing) return wasFailing ? 'stillFailing' : 'newFailure';
+  if (wasFailing && outcome !== 'skipped') return 'fixed';
+  return 'unchanged';
+}
+
+/**
+ * Classify every test of two runs by test id; changes keep the current run's order, removed tests last
+ */
+export function compareRuns(current: ComparedTest[], previous: ComparedTest[]): RunComparison {
+  const previousById = new Map(previous.map(test => [test.testId, test] as [string, ComparedTest]));
+  const currentIds = new Set(current.map(test => test.testId));
+  const counts: Record<RunChange, number> = { newFailure: 0, stillFailing: 0, fixed: 0, added: 0, removed: 0, unchanged: 0 };
+  const changes: RunComparisonEntry[] = [];
+
+  const record = (entry: RunComparisonEntry) => {
+    counts[entry.change]++;
+    if (entry.change !== 'unchanged') changes.push(entry);
+  };
+
+  current.forEach(test => {
+    const previousOutcome = previousById.get(test.testId)?.outcome;
+    record({ testId: test.testId, test: test.test, change: classifyChange(test.outcome, previousOutcome), outcome: test.outcome, previousOutcome });
+  });
+  previous.filter(test => !currentIds.has(test.testId)).forEach(test => {
+    record({ testId: test.testId, test: test.test, change: 'removed', previousOutcome: test.outcome });
+  });
+
+  return { counts, changes };
+}
+
+/**
+ * Entries of the latest run before the given one; empty when there is none
+ */
+export function getPreviousRun(history: TestHistoryEntry[], timestamp: string): TestHistoryEntry[] {
+  const previousRun = history.reduce<string | undefined>(
+    (latest, entry) => (entry.timestamp < timestamp && (!latest || entry.timestamp > latest) ? entry.timestamp : latest),
+    undefined
+  );
+  return previousRun ? history.filter(entry => entry.timestamp === previousRun) : [];
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs-extra';
+import { DurationRegression, DurationRegressionOptions, HistoryRetention, TestFlakiness, TestHistoryEntry, TestOutcome } from './types';
+
+export const TEST_HISTORY_FILE = 'test-history.jsonl';
+
+// Increases below this are timing noise, however large the factor
+const MIN_REGRESSION_MS = 100;
+
+/**
+ * Read the history store, one JSON entry per line; lines that do not parse (e.g. a write cut short) are skipped
+ */
+export async function readTestHistory(file: string): Promise<TestHistoryEntry[]> {
+  if (!(await fs.pathExists(file))) return [];
+
+  const entries: TestHistoryEntry[] = [];
+  for (const line of (await fs.readFile(file, 'utf8')).split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      // Keep whatever else is readable
+    }
+  }
+  return entries;
+}
+
+export async function appendTestHistory(file: string, entries: TestHistoryEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await fs.appendFile(file, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+}
+
+/**
+ * Group entries by test id, oldest run first
+ */
+export function groupHistoryByTest(entries: TestHistoryEntry[]): Map<string, TestHistoryEntry[]> {
+  const byTest = new Map<string, TestHistoryEntry[]>();
+  for (const entry of entries) {
+    const testEntries = byTest.get(entry.testId) || [];
+    testEntries.push(entry);
+    byTest.set(entry.testId, testEntries);
+  }
+  byTest.forEach(testEntries => testEntries.sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+  return byTest;
+}
+
+/**
+ * Flip rate over a test's recent runs: every change between passing and failing from one run to the next,
+ * plus every run that only passed on retry, divided by the number of runs. Skipped runs are ignored.
+ */
+export function calculateFlakiness(entries: TestHistoryEntry[]): TestFlakiness | undefined {
+  const runs = entries.filter(entry => entry.outcome !== 'skipped');
+  if (runs.length === 0) return undefined;
+
+  let flips = 0;
+  for (let i = 1; i < runs.length; i++) {
+    if ((runs[i].outcome === 'unexpected') !== (runs[i - 1].outcome === 'unexpected')) flips++;
+  }
+  const flakyRuns = runs.filter(entry => entry.outcome === 'flaky').length;
+
+  return {
+    score: Math.min(100, Math.round(((flips + flakyRuns) / runs.length) * 100)),
+    runs: runs.length,
+    flips,
+    flakyRuns
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Compare a passing test's duration with the median of its earlier passing runs. Failed runs are left out on
+ * both sides: they stop early or run into timeouts, so their durations say little about the test's speed.
+ */
+export function detectDurationRegression(
+  earlierEntries: TestHistoryEntry[],
+  current: { duration: number; outcome: TestOutcome },
+  options: DurationRegressionOptions
+): DurationRegression | undefined {
+  const passing = (outcome: TestOutcome) => outcome === 'expected' || outcome === 'flaky';
+  if (!passing(current.outcome)) return undefined;
+
+  const durations = earlierEntries.filter(entry => passing(entry.outcome)).map(entry => entry.duration);
+  if (durations.length === 0 || durations.length < (options.minRuns ?? 1)) return undefined;
+
+  const baseline = median(durations);
+  const increase = current.duration - baseline;
+  const overFactor = !!options.factor && increase >= MIN_REGRESSION_MS && current.duration >= baseline * options.factor;
+  const overThreshold = options.threshold !== undefined && increase >= options.threshold;
+  if (!overFactor && !overThreshold) return undefined;
+
+  return {
+    median: Math.round(baseline),
+    ratio: baseline > 0 ? current.duration / baseline : Infinity,
+    runs: durations.length
+  };
+}
+
+/**
+ * Keep the runs within the retention limits; entries of one run share its timestamp
+ */
+export function applyRetention<T>(entries: T[], getTimestamp: (entry: T) => string, retention: HistoryRetention, now = new Date()): T[] {
+  const runs = Array.from(new Set(entries.map(getTimestamp))).sort();
+  let keptRuns = retention.runs !== undefined ? runs.slice(Math.max(runs.length - retention.runs, 0)) : runs;
+  if (retention.days !== undefined) {
+    const cutoff = now.getTime() - retention.days * 24 * 60 * 60 * 1000;
+    keptRuns = keptRuns.filter(run => new Date(run).getTime() >= cutoff);
+  }
+
+  const kept = new Set(keptRuns);
+  return entries.filter(entry => kept.has(getTimestamp(entry)));
+}
+
+/**
+ * Replace the history store with the given entries, via a temporary file so a crash never leaves it half written
+ */
+export async function writeTestHistory(file: string, entries: TestHistoryEntry[]): Promise<void> {
+  const tempFile = `${file}.tmp`;
+  await fs.writeFile(tempFile, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+  await fs.move(tempFile, file, { overwrite: true });
+}
@@ -4,6 +4,11 @@ export interface TestMetrics {
   failed: number;
   skipped: number;
   flaky: number;
+  // Failures matching the known-issues file; included in `failed`
+  knownFailures?: number;
+  // Passing tests slower than their historical median, see durationRegression
+  slowerThanUsual?: number;
+  // Cumulative test time: every attempt's duration summed across all workers
   duration: number;
   passRate: number;
   failRate: number;
@@ -14,13 +19,40 @@ export interface TestMetrics {
   fastestTest?: { name: string; duration: number };
   browserMetrics: Record<string, { passed: number; failed: number; duration: number }>;
   errorCategories: Record<string, number>;
+  // Chart color of every category in errorCategories
+  errorCategoryColors?: Record<string, string>;
   
-  // Allure-style metrics
+  // Per-value counts for every configured annotation dimension, keyed by annotation type
+  annotationMetrics: Record<string, Record<string, { total: number; passed: number; failed: number }>>;
+  
+  // Allure-style metrics, kept for readers of detailed-report.json; empty when the dimension is not configured
   severityMetrics: Record<string, { total: number; passed: number; failed: number }>;
   featureMetrics: Record<string, { total: number; passed: number; failed: number }>;
   epicMetrics: Record<string, { total: number; passed: number; failed: number }>;
+  
+  // Playwright tags (`tag` option and `@tag` in titles); passRate counts flaky tests as passed, like the overall rate
+  tagMetrics: Record<string, { total: number; passed: number; failed: number; flaky: number; skipped: number; passRate: number }>;
+  
+  // Per-owner counts; tests without an owner are counted under 'Unowned'
+  ownerMetrics: Record<string, { total: number; passed: number; failed: number; flaky: number; skipped: number }>;
+  
+  // Changes since the previous run in the test history; missing on the first run
+  runComparison?: RunComparison;
+  
+  // Overall run result, from Playwright's FullResult
+  runStatus?: RunStatus;
+  exitReason?: string;
+  wallClockDuration?: number;
+  // Average number of tests running at once, and how much of the available worker time they used (%)
+  parallelism?: number;
+  parallelEfficiency?: number;
+  workers?: number;
+  plannedTests?: number;
+  notRunTests?: number;
 }
 
+export type RunStatus = 'passed' | 'failed' | 'timedout' | 'interrupted';
+
 export interface TestAttachment {
   name: string;
   contentType: string;
@@ -28,8 +60,47 @@ export interface TestAttachment {
   body?: Buffer;
 }
 
+export interface TestStepDetail {
+  title: string;
+  category: string;
+  duration: number;
+  startTime: Date;
+  error?: string;
+  location?: { file: string; line: number; column: number };
+  steps: TestStepDetail[];
+}
+
+export type TestOutcome = 'expected' | 'unexpected' | 'flaky' | 'skipped';
+
+export interface TestAttempt {
+  retry: number;
+  status: string;
+  duration: number;
+  startTime: Date;
+  // Worker process that ran the attempt, and the stable worker slot (0..workers-1) it occupied
+  workerIndex: number;
+  parallelIndex: number;
+  error?: string;
+  errorStack?: string;
+  attachments?: TestAttachment[];
+  steps?: TestStepDetail[];
+  stdout?: string;
+  stderr?: string;
+  // Full console log on disk, written when the output is too large to embed in the HTML
+  consoleLogPath?: string;
+}
+
 export interface TestResultDetail {
+  // Playwright's stable test id, unique across projects, files and describe blocks
+  testId: string;
   test: string;
+  // Project, file, describe blocks and test title, outermost first
+  titlePath: string[];
+  // Playwright tags including the leading '@', e.g. ['@smoke', '@slow']
+  tags: string[];
+  // Final outcome across all attempts, as reported by Playwright
+  outcome: TestOutcome;
+  // Status, duration, retry, error, attachments and steps mirror the last attempt
   status: string;
   duration: number;
   browser: string;
@@ -39,19 +110,271 @@ export interface TestResultDetail {
   error?: string;
   errorStack?: string;
   attachments?: TestAttachment[];
-  allureProperties?: {
-    severity?: string;
-    feature?: string;
-    epic?: string;
-  };
+  steps?: TestStepDetail[];
+  // Console output is kept per attempt only, see attempts[].stdout and attempts[].stderr
+  attempts: TestAttempt[];
+  // Shard that ran the test, when the run was sharded
+  shard?: number;
+  // Value of every configured annotation dimension, keyed by annotation type
+  allureProperties?: Record<string, string>;
+  // Tickets and test cases from issue/tms/link annotations
+  links?: TestLink[];
+  // Teams from `owner` annotations, or else from the CODEOWNERS entry matching specFile
+  owners?: string[];
+  // Category of the final error, from the errorCategories rules or the errorClassifier
+  errorCategory?: string;
+  // Set when the test failed and matches an entry of the known-issues file
+  knownIssue?: KnownIssue;
+  // Instability across the recent runs recorded in the test history, this run included
+  flakiness?: TestFlakiness;
+  // Set when this run took noticeably longer than the test's earlier passing runs
+  durationRegression?: DurationRegression;
+}
+
+export interface TestFlakiness {
+  // 0-100: pass/fail flips between consecutive runs plus runs that passed on retry, per run
+  score: number;
+  runs: number;
+  flips: number;
+  flakyRuns: number;
+}
+
+/**
+ * One test's result in one run, as stored in the test history
+ */
+export interface TestHistoryEntry {
+  // End of the run the entry belongs to, shared by all of its entries
+  timestamp: string;
+  testId: string;
+  test: string;
+  outcome: TestOutcome;
+  status: string;
+  duration: number;
+  // Number of attempts, 1 when the test was not retried
+  attempts: number;
+  // Normalized error of the final attempt, see getErrorSignature
+  errorSignature?: string;
 }
 
+/**
+ * How a test's result changed since the previous run; a test counts as failing when its outcome is unexpected
+ */
+export type RunChange = 'newFailure' | 'stillFailing' | 'fixed' | 'added' | 'removed' | 'unchanged';
+
+export interface RunComparisonEntry {
+  testId: string;
+  test: string;
+  change: RunChange;
+  // Missing for a test removed since the previous run
+  outcome?: TestOutcome;
+  // Missing for a test added in this run
+  previousOutcome?: TestOutcome;
+}
+
+export interface RunComparison {
+  // End of the run compared against, as recorded in the test history
+  previousRun?: string;
+  counts: Record<RunChange, number>;
+  // Every test whose result changed; unchanged tests are only counted
+  changes: RunComparisonEntry[];
+}
+
+/**
+ * One test in a comparison of two detailed reports; base or head fields are missing where the test did not exist
+ */
+export interface ReportDiffEntry {
+  testId: string;
+  // Full title path, project and spec file included
+  title: string;
+  change: RunChange;
+  baseOutcome?: TestOutcome;
+  headOutcome?: TestOutcome;
+  baseDuration?: number;
+  headDuration?: number;
+  baseErrorCategory?: string;
+  headErrorCategory?: string;
+}
+
+export interface ReportDiffSide {
+  file: string;
+  generatedAt?: string;
+  summary: Pick<TestMetrics, 'totalTests' | 'passed' | 'failed' | 'flaky' | 'skipped' | 'passRate' | 'wallClockDuration'>;
+}
+
+export interface ReportDiff {
+  base: ReportDiffSide;
+  head: ReportDiffSide;
+  counts: Record<RunChange, number>;
+  // Every test of both reports, in the head report's order, removed tests last
+  tests: ReportDiffEntry[];
+  // Failures per error category in each report
+  errorCategories: Record<string, { base: number; head: number }>;
+}
+
+export interface CompareReportsOptions {
+  // Where compare-report.html and compare-report.md are written
+  outputDir?: string;
+  title?: string;
+}
+
+export interface DurationRegression {
+  // Median duration of the test's earlier passing runs
+  median: number;
+  // This run's duration divided by the median
+  ratio: number;
+  // Earlier passing runs the median is based on
+  runs: number;
+}
+
+/**
+ * When a passing test counts as slower than usual; either limit flags it
+ */
+export interface DurationRegressionOptions {
+  // At least this many times the median; 0 to only use the threshold
+  factor?: number;
+  // At least this many milliseconds over the median
+  threshold?: number;
+  // Earlier passing runs needed before a test has a baseline
+  minRuns?: number;
+}
+
+/**
+ * How much history to keep; runs beyond either limit are dropped, oldest first
+ */
+export interface HistoryRetention {
+  runs?: number;
+  days?: number;
+}
+
+/**
+ * Entry of the known-issues file. All conditions that are set must match; title and error are regex sources.
+ */
+export interface KnownIssue {
+  testId?: string;
+  // Matched against the full title path joined with ' › '
+  title?: string;
+  error?: string;
+  ticket?: string;
+  reason?: string;
+  // Filled in from the ticket and the `links.issue` template
+  url?: string;
+}
+
+/**
+ * What error categorization rules and classifiers look at
+ */
+export interface ErrorInfo {
+  message: string;
+  stack?: string;
+  // Attempt status, e.g. 'failed' or 'timedOut'
+  status: string;
+  test: string;
+  specFile: string;
+}
+
+/**
+ * Maps matching failures to a category. All given conditions must hold; a rule without any matches everything.
+ */
+export interface ErrorCategoryRule {
+  category: string;
+  color?: string;
+  match?: RegExp | string;
+  // What `match` is tested against, the message by default
+  field?: 'message' | 'stack' | 'any';
+  status?: string | string[];
+  predicate?: (error: ErrorInfo) => boolean;
+}
+
+// Return nothing to fall through to the rules
+export type ErrorClassifier = (error: ErrorInfo) => string | { category: string; color?: string } | undefined;
+
+export interface TestLink {
+  // Annotation type, e.g. 'issue'
+  type: string;
+  // Annotation description, e.g. 'PROJ-123'
+  name: string;
+  // Missing when the type has no URL template and the description is not a URL
+  url?: string;
+}
+
+export interface RunError {
+  message: string;
+  stack?: string;
+  location?: { file: string; line: number; column: number };
+  timestamp: Date;
+}
+
+export interface ShardInfo {
+  current: number;
+  total: number;
+}
+
+/**
+ * Mergeable result of one shard (or any partial run), written next to the shard's report
+ */
+export interface PartialReport {
+  version: 1;
+  shard: ShardInfo | null;
+  startTime: Date;
+  endTime: Date;
+  wallClockDuration: number;
+  runStatus: RunStatus;
+  workers: number;
+  plannedTests: number;
+  globalTimeout: number;
+  maxFailures: number;
+  runErrors: RunError[];
+  annotations?: AnnotationDimension[];
+  errorCategoryColors?: Record<string, string>;
+  testResults: TestResultDetail[];
+}
+
+/**
+ * An annotation type to turn into a report dimension with its own metrics, filter and chart
+ */
+export interface AnnotationDimension {
+  // Annotation type, e.g. 'story' for test.info().annotations.push({ type: 'story', description: 'Login' })
+  type: string;
+  // Shown in filters and charts; defaults to the capitalized type
+  label?: string;
+  // Used when a test has no such annotation or its value is not allowed
+  default?: string;
+  // Allowed values; anything else falls back to the default
+  values?: string[];
+}
+
+export type ShardMode = 'auto' | 'always' | 'never';
+
+export type OpenReportMode = 'always' | 'never' | 'on-failure';
+
 export interface EnhancedReporterOptions {
   outputDir?: string;
   outputFile?: string;
   title?: string;
   includeCharts?: boolean;
   includeTrends?: boolean;
-  openReport?: boolean;
+  openReport?: boolean | OpenReportMode;
   theme?: 'light' | 'dark' | 'auto';
+  offline?: boolean;
+  consoleOutputLimit?: number;
+  shardMode?: ShardMode;
+  annotations?: AnnotationDimension[];
+  // URL templates per annotation type, '{}' is replaced by the annotation description
+  links?: Record<string, string>;
+  // Path to a CODEOWNERS file, true to look for one in the repository, false to ignore it
+  codeowners?: string | boolean;
+  // Ordered rules, the first match wins; replaces the default rules
+  errorCategories?: ErrorCategoryRule[];
+  errorClassifier?: ErrorClassifier;
+  // Path to a known-issues JSON file
+  knownIssues?: string;
+  // Leave known failures out of the pass and failure rates
+  excludeKnownIssuesFromPassRate?: boolean;
+  // Number of recent runs the flakiness score looks at
+  flakinessWindow?: number;
+  // Applies to both trends.json and test-history.jsonl
+  historyRetention?: HistoryRetention;
+  durationRegression?: DurationRegressionOptions;
+  host?: string;
+  port?: number;
 }